@@ -0,0 +1,128 @@
+import { listCampaigns } from "@/lib/supabase";
+import { SUPPORTED_LOCALES } from "@/lib/emails/i18n";
+import { getTemplateNames } from "@/lib/emails/templates";
+import {
+    EMAIL_TYPES,
+    SAMPLE_REWARDS,
+    renderEmailPreview,
+    resolvePreviewOptions,
+    EmailPreviewParams,
+    InvalidPreviewError,
+} from "@/lib/emails/preview";
+import { requireAdminSession } from "@/lib/admin-session";
+import { sendTestEmailAction } from "../../actions";
+
+type SearchParams = EmailPreviewParams & { notice?: string };
+
+function previewQuery(params: SearchParams): string {
+    return new URLSearchParams(
+        Object.entries(params).filter(([k, v]) => v && k !== "notice") as [string, string][]
+    ).toString();
+}
+
+export default async function EmailsPage({
+    searchParams,
+}: {
+    searchParams: SearchParams;
+}) {
+    requireAdminSession();
+
+    const campaigns = await listCampaigns();
+
+    let preview: ReturnType<typeof renderEmailPreview> | null = null;
+    let error: string | null = null;
+    try {
+        preview = renderEmailPreview(await resolvePreviewOptions(searchParams));
+    } catch (e) {
+        if (!(e instanceof InvalidPreviewError)) throw e;
+        error = e.message;
+    }
+
+    const query = previewQuery(searchParams);
+    const type = (searchParams.type || "reward") as typeof EMAIL_TYPES[number];
+
+    return (
+        <>
+            <h1>Email previews</h1>
+            {searchParams.notice && <div className="admin-notice">{searchParams.notice}</div>}
+
+            <form className="admin-filters">
+                <label>
+                    Email
+                    <select name="type" defaultValue={type}>
+                        {EMAIL_TYPES.map(t => (
+                            <option key={t} value={t}>{t}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Campaign
+                    <select name="campaign" defaultValue={searchParams.campaign ?? ""}>
+                        <option value="">None (sample reward)</option>
+                        {campaigns.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Sample reward
+                    <select name="rewardType" defaultValue={searchParams.rewardType ?? ""}>
+                        {Object.keys(SAMPLE_REWARDS).map(r => (
+                            <option key={r} value={r}>{r}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Template
+                    <select name="template" defaultValue={searchParams.template ?? ""}>
+                        <option value="">Campaign default</option>
+                        {EMAIL_TYPES.includes(type) && getTemplateNames(type).map(t => (
+                            <option key={t} value={t}>{t}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Locale
+                    <select name="locale" defaultValue={searchParams.locale ?? ""}>
+                        <option value="">Campaign default</option>
+                        {SUPPORTED_LOCALES.map(l => (
+                            <option key={l} value={l}>{l}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Name
+                    <input type="text" name="name" defaultValue={searchParams.name ?? ""} placeholder="(none)" />
+                </label>
+                <button type="submit">Preview</button>
+            </form>
+
+            {error && <div className="admin-notice">{error}</div>}
+
+            {preview && (
+                <>
+                    <dl className="admin-grid">
+                        <dt>Subject</dt>
+                        <dd>{preview.subject}</dd>
+                    </dl>
+
+                    <h2>Send a test</h2>
+                    <form action={sendTestEmailAction} className="admin-form">
+                        <input type="hidden" name="query" value={query} />
+                        <label>
+                            To (EMAIL_TEST_RECIPIENTS)
+                            <input type="email" name="to" required />
+                        </label>
+                        <button type="submit">Send test</button>
+                    </form>
+
+                    <h2>HTML</h2>
+                    <iframe className="admin-email-preview" src={`/admin/emails/preview?${query}`} title="HTML preview" />
+
+                    <h2>Plain text</h2>
+                    <pre className="admin-email-text">{preview.text}</pre>
+                </>
+            )}
+        </>
+    );
+}
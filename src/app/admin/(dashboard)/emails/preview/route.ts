@@ -0,0 +1,125 @@
+/**
+ * Admin Email Preview
+ *
+ * Renders an email template with sample data (see src/lib/emails/preview.ts).
+ * Authenticated by the admin session cookie (dashboard iframe) or the admin bearer token.
+ *
+ * GET query params:
+ * - type: reward (default) | abuse | reminder
+ * - campaign: campaign id whose reward, templates and locale to use
+ * - rewardType: sample reward type when no campaign is given
+ * - template, locale, name: override the template, locale and greeting name
+ * - format: html (default) | text | json
+ *
+ * POST { to, ...the GET params }: send the preview to an EMAIL_TEST_RECIPIENTS address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasAdminSession } from '@/lib/admin-session';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+import {
+    renderEmailPreview,
+    resolvePreviewOptions,
+    sendTestEmail,
+    EmailPreviewParams,
+    InvalidPreviewError,
+} from '@/lib/emails/preview';
+
+function isAuthorized(request: NextRequest): boolean {
+    return hasAdminSession() || verifyAdminToken(request.headers.get('authorization')).verified;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        if (!isAuthorized(request)) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = request.nextUrl;
+        const format = searchParams.get('format') || 'html';
+        if (format !== 'html' && format !== 'text' && format !== 'json') {
+            return NextResponse.json(
+                { error: 'format must be html, text or json' },
+                { status: 400 }
+            );
+        }
+
+        const options = await resolvePreviewOptions(Object.fromEntries(searchParams) as EmailPreviewParams);
+        const email = renderEmailPreview(options);
+
+        if (format === 'json') {
+            return NextResponse.json({ options, ...email });
+        }
+
+        return new NextResponse(format === 'html' ? email.html : email.text, {
+            headers: {
+                'Content-Type': `text/${format === 'html' ? 'html' : 'plain'}; charset=utf-8`,
+                // Rendered campaign data is escaped, but never let the preview run scripts
+                'Content-Security-Policy': 'sandbox',
+                'Cache-Control': 'no-store',
+            },
+        });
+
+    } catch (error) {
+        if (error instanceof InvalidPreviewError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Email Preview] Error rendering preview:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        if (!isAuthorized(request)) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => null) as (EmailPreviewParams & { to?: string }) | null;
+        if (!body?.to) {
+            return NextResponse.json(
+                { error: 'Missing "to" address' },
+                { status: 400 }
+            );
+        }
+
+        const options = await resolvePreviewOptions(body);
+        const result = await sendTestEmail(body.to, options);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: `Send failed: ${result.error}` },
+                { status: 502 }
+            );
+        }
+
+        console.log('[Email Preview] Test', options.type, 'email sent to', body.to);
+        return NextResponse.json({ success: true, messageId: result.messageId });
+
+    } catch (error) {
+        if (error instanceof InvalidPreviewError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Email Preview] Error sending test email:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
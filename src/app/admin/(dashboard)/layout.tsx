@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { requireAdminSession } from "@/lib/admin-session";
+import { logoutAction } from "../actions";
+
+export default function DashboardLayout({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    // Layouts are not re-rendered on client-side navigation, so every page
+    // checks the session itself as well
+    requireAdminSession();
+
+    return (
+        <>
+            <header className="admin-header">
+                <nav className="admin-nav">
+                    <Link href="/admin">Survey Admin</Link>
+                    <Link href="/admin/emails">Email previews</Link>
+                </nav>
+                <form action={logoutAction}>
+                    <button type="submit" className="secondary">Sign out</button>
+                </form>
+            </header>
+            {children}
+        </>
+    );
+}
@@ -0,0 +1,157 @@
+import Link from "next/link";
+import {
+    listSubmissions,
+    listCampaigns,
+    SUBMISSION_CLASSIFICATIONS,
+    EMAIL_DELIVERY_STATUSES,
+    SubmissionClassification,
+    EmailDeliveryStatus,
+    SubmissionFilters,
+} from "@/lib/supabase";
+import { requireAdminSession } from "@/lib/admin-session";
+
+const PAGE_SIZE = 50;
+
+type SearchParams = {
+    classification?: string;
+    campaign?: string;
+    emailSent?: string;
+    delivery?: string;
+    from?: string;
+    to?: string;
+    email?: string;
+    page?: string;
+};
+
+function toFilters(params: SearchParams): SubmissionFilters {
+    return {
+        classification: SUBMISSION_CLASSIFICATIONS.includes(params.classification as SubmissionClassification)
+            ? params.classification as SubmissionClassification
+            : undefined,
+        campaignId: params.campaign || undefined,
+        emailSent: params.emailSent === "yes" ? true : params.emailSent === "no" ? false : undefined,
+        deliveryStatus: EMAIL_DELIVERY_STATUSES.includes(params.delivery as EmailDeliveryStatus)
+            ? params.delivery as EmailDeliveryStatus
+            : undefined,
+        from: params.from || undefined,
+        // Inclusive of the whole "to" day
+        to: params.to ? `${params.to}T23:59:59.999Z` : undefined,
+        email: params.email || undefined,
+    };
+}
+
+function pageHref(params: SearchParams, page: number): string {
+    const query = new URLSearchParams(
+        Object.entries({ ...params, page: String(page) }).filter(([, v]) => v) as [string, string][]
+    );
+    return `/admin?${query.toString()}`;
+}
+
+export default async function SubmissionsPage({
+    searchParams,
+}: {
+    searchParams: SearchParams;
+}) {
+    requireAdminSession();
+
+    const page = Math.max(Number(searchParams.page) || 1, 1);
+    const [{ submissions, total }, campaigns] = await Promise.all([
+        listSubmissions(toFilters(searchParams), { limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE }),
+        listCampaigns(),
+    ]);
+    const campaignNames = new Map(campaigns.map(c => [c.id, c.name]));
+    const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+    return (
+        <>
+            <h1>Submissions</h1>
+
+            <form className="admin-filters">
+                <label>
+                    Classification
+                    <select name="classification" defaultValue={searchParams.classification ?? ""}>
+                        <option value="">All</option>
+                        {SUBMISSION_CLASSIFICATIONS.map(c => (
+                            <option key={c} value={c}>{c}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Campaign
+                    <select name="campaign" defaultValue={searchParams.campaign ?? ""}>
+                        <option value="">All</option>
+                        {campaigns.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Email sent
+                    <select name="emailSent" defaultValue={searchParams.emailSent ?? ""}>
+                        <option value="">Any</option>
+                        <option value="yes">Yes</option>
+                        <option value="no">No</option>
+                    </select>
+                </label>
+                <label>
+                    Delivery
+                    <select name="delivery" defaultValue={searchParams.delivery ?? ""}>
+                        <option value="">Any</option>
+                        {EMAIL_DELIVERY_STATUSES.map(d => (
+                            <option key={d} value={d}>{d}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    From
+                    <input type="date" name="from" defaultValue={searchParams.from} />
+                </label>
+                <label>
+                    To
+                    <input type="date" name="to" defaultValue={searchParams.to} />
+                </label>
+                <label>
+                    Email contains
+                    <input type="search" name="email" defaultValue={searchParams.email} />
+                </label>
+                <button type="submit">Filter</button>
+                <Link href="/admin">Reset</Link>
+            </form>
+
+            <p>{total} submission(s)</p>
+
+            <table className="admin-table">
+                <thead>
+                    <tr>
+                        <th>Received</th>
+                        <th>Email</th>
+                        <th>Classification</th>
+                        <th>Campaign</th>
+                        <th>Reward</th>
+                        <th>Email sent</th>
+                        <th>Delivery</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {submissions.map(s => (
+                        <tr key={s.id}>
+                            <td>{s.created_at ? new Date(s.created_at).toLocaleString("en-GB") : ""}</td>
+                            <td><Link href={`/admin/submissions/${s.id}`}>{s.email}</Link></td>
+                            <td><span className={`admin-badge ${s.classification}`}>{s.classification}</span></td>
+                            <td>{(s.campaign_id && campaignNames.get(s.campaign_id)) || s.form_id || "—"}</td>
+                            <td>{s.classification === "valid" ? `${s.reward_status}${s.promo_code ? ` (${s.promo_code})` : ""}` : "—"}</td>
+                            <td>{s.email_sent ? s.email_type ?? "yes" : "no"}</td>
+                            <td>{s.email_delivery_status ?? "—"}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="admin-pagination">
+                {page > 1 && <Link href={pageHref(searchParams, page - 1)}>← Previous</Link>}
+                <span>Page {page} of {pageCount}</span>
+                {page < pageCount && <Link href={pageHref(searchParams, page + 1)}>Next →</Link>}
+            </div>
+        </>
+    );
+}
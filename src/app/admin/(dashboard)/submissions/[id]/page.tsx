@@ -0,0 +1,273 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+    getSubmissionById,
+    listOutboxEmailsForSubmission,
+    listEmailEventsForSubmission,
+    getEmailSuppression,
+    SUBMISSION_CLASSIFICATIONS,
+} from "@/lib/supabase";
+import { readAnswers } from "@/lib/answers";
+import { getIssuedReward, getRewardStatus, IssuedRewardStatus } from "@/lib/reward-providers";
+import { requireAdminSession } from "@/lib/admin-session";
+import {
+    resendEmailAction,
+    reissueCodeAction,
+    reclassifyAction,
+    removeSuppressionAction,
+} from "../../../actions";
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (Array.isArray(value)) return value.join(", ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+function formatDate(value?: string | null): string {
+    return value ? new Date(value).toLocaleString("en-GB") : "—";
+}
+
+export default async function SubmissionDetailPage({
+    params,
+    searchParams,
+}: {
+    params: { id: string };
+    searchParams: { notice?: string };
+}) {
+    requireAdminSession();
+
+    const submission = await getSubmissionById(params.id);
+    if (!submission) {
+        notFound();
+    }
+
+    const [outbox, events, suppression] = await Promise.all([
+        listOutboxEmailsForSubmission(params.id),
+        listEmailEventsForSubmission(params.id),
+        getEmailSuppression(submission.email),
+    ]);
+    const reward = getIssuedReward(submission);
+
+    // Live status from the provider; the page still renders if it is unreachable
+    let rewardStatus: IssuedRewardStatus | null = null;
+    if (reward) {
+        rewardStatus = await getRewardStatus(reward).catch(error => ({
+            state: "unknown" as const,
+            detail: error instanceof Error ? error.message : "Status unavailable",
+        }));
+    }
+    // Classifications that are owed an email (see resendSubmissionEmail)
+    const canEmail = ["valid", "attention_fail", "rejected"].includes(submission.classification);
+
+    return (
+        <>
+            <p><Link href="/admin">← All submissions</Link></p>
+            <h1>{submission.email}</h1>
+
+            {searchParams.notice && <div className="admin-notice">{searchParams.notice}</div>}
+
+            {suppression && (
+                <div className="admin-notice">
+                    Emails to this address are suppressed ({suppression.reason}
+                    {suppression.detail ? `: ${suppression.detail}` : ""}, {formatDate(suppression.created_at)}).
+                    <form action={removeSuppressionAction}>
+                        <input type="hidden" name="id" value={submission.id} />
+                        <button type="submit" className="secondary">Remove suppression</button>
+                    </form>
+                </div>
+            )}
+
+            <h2>Submission</h2>
+            <dl className="admin-grid">
+                <dt>Classification</dt>
+                <dd><span className={`admin-badge ${submission.classification}`}>{submission.classification}</span></dd>
+                <dt>Reason</dt>
+                <dd>{submission.classification_reason || "—"}</dd>
+                <dt>Received</dt>
+                <dd>{formatDate(submission.created_at)}</dd>
+                <dt>Tally response</dt>
+                <dd>{submission.tally_response_id}</dd>
+                <dt>Form / campaign</dt>
+                <dd>{submission.form_id || "—"} / {submission.campaign_id || "—"}</dd>
+                <dt>Canonical email</dt>
+                <dd>{submission.email_canonical || "—"}</dd>
+                <dt>Email flags</dt>
+                <dd>{submission.email_flags?.length ? submission.email_flags.join(", ") : "—"}</dd>
+                <dt>Bot score</dt>
+                <dd>
+                    {submission.bot_score ?? "—"}
+                    {submission.bot_signals?.length ? ` (${submission.bot_signals.map(s => s.heuristic).join(", ")})` : ""}
+                </dd>
+                <dt>Completion time</dt>
+                <dd>{submission.submission_time_seconds != null ? `${submission.submission_time_seconds}s` : "—"}</dd>
+                {submission.reviewed_at && (
+                    <>
+                        <dt>Reviewed</dt>
+                        <dd>
+                            {formatDate(submission.reviewed_at)} by {submission.reviewed_by}
+                            {submission.review_note ? ` — ${submission.review_note}` : ""}
+                        </dd>
+                    </>
+                )}
+            </dl>
+
+            <h2>Reward</h2>
+            <dl className="admin-grid">
+                <dt>Status</dt>
+                <dd>{submission.reward_status}</dd>
+                <dt>Type</dt>
+                <dd>{reward?.type ?? "—"}</dd>
+                <dt>Code</dt>
+                <dd>{reward?.code || "—"}</dd>
+                <dt>Reference</dt>
+                <dd>{reward?.reference ?? "—"}</dd>
+                <dt>Expires</dt>
+                <dd>{formatDate(submission.reward_expires_at)}</dd>
+                <dt>Redeemed</dt>
+                <dd>{formatDate(submission.reward_redeemed_at)}</dd>
+                <dt>Paid</dt>
+                <dd>
+                    {formatDate(submission.reward_paid_at)}
+                    {submission.reward_paid_amount != null && submission.reward_paid_currency
+                        ? ` (${(submission.reward_paid_amount / 100).toFixed(2)} ${submission.reward_paid_currency.toUpperCase()})`
+                        : ""}
+                </dd>
+                <dt>Reminders sent</dt>
+                <dd>
+                    {submission.reward_reminders_sent ?? 0}
+                    {submission.reward_next_reminder_at ? ` (next check ${formatDate(submission.reward_next_reminder_at)})` : ""}
+                </dd>
+                <dt>Provider status</dt>
+                <dd>{rewardStatus ? `${rewardStatus.state}${rewardStatus.detail ? ` (${rewardStatus.detail})` : ""}` : "—"}</dd>
+                <dt>Attempts</dt>
+                <dd>{submission.reward_attempts}</dd>
+                <dt>Last error</dt>
+                <dd>{submission.reward_error || "—"}</dd>
+                <dt>Email sent</dt>
+                <dd>{submission.email_sent ? submission.email_type ?? "yes" : "no"}</dd>
+                <dt>Delivery</dt>
+                <dd>
+                    {submission.email_delivery_status ?? "—"}
+                    {submission.email_delivery_updated_at ? ` (${formatDate(submission.email_delivery_updated_at)})` : ""}
+                </dd>
+                <dt>Delivery error</dt>
+                <dd>{submission.email_delivery_error || "—"}</dd>
+            </dl>
+
+            <h2>Actions</h2>
+            <div className="admin-actions">
+                {canEmail && (
+                    <form action={resendEmailAction}>
+                        <input type="hidden" name="id" value={submission.id} />
+                        <button type="submit">Resend email</button>
+                    </form>
+                )}
+                {canEmail && (
+                    <form action={resendEmailAction} className="admin-form">
+                        <input type="hidden" name="id" value={submission.id} />
+                        <label>
+                            Resend to another address
+                            <input type="email" name="recipient" required />
+                        </label>
+                        <button type="submit" className="secondary">Resend</button>
+                    </form>
+                )}
+                {submission.classification === "valid" && (
+                    <form action={reissueCodeAction}>
+                        <input type="hidden" name="id" value={submission.id} />
+                        <button type="submit" className="secondary">Reissue reward</button>
+                    </form>
+                )}
+                <form action={reclassifyAction} className="admin-form">
+                    <input type="hidden" name="id" value={submission.id} />
+                    <label>
+                        Classification
+                        <select name="classification" defaultValue={submission.classification}>
+                            {SUBMISSION_CLASSIFICATIONS.map(c => (
+                                <option key={c} value={c}>{c}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Note
+                        <input type="text" name="note" />
+                    </label>
+                    <button type="submit" className="secondary">Reclassify</button>
+                </form>
+            </div>
+
+            <h2>Answers</h2>
+            <table className="admin-table">
+                <tbody>
+                    {readAnswers(submission.answers).map(answer => (
+                        <tr key={answer.key}>
+                            <th>{answer.title || answer.key}</th>
+                            <td>{formatValue(answer.value)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <h2>Emails</h2>
+            {outbox.length === 0 ? (
+                <p>No emails queued.</p>
+            ) : (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Queued</th>
+                            <th>Type</th>
+                            <th>Status</th>
+                            <th>Attempts</th>
+                            <th>Sent</th>
+                            <th>Recipient</th>
+                            <th>Delivery</th>
+                            <th>Last error</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {outbox.map(entry => (
+                            <tr key={entry.id}>
+                                <td>{formatDate(entry.created_at)}</td>
+                                <td>{entry.email_type}</td>
+                                <td>{entry.status}</td>
+                                <td>{entry.attempts}/{entry.max_attempts}</td>
+                                <td>{formatDate(entry.sent_at)}</td>
+                                <td>{entry.recipient}</td>
+                                <td>{entry.delivery_status ?? "—"}</td>
+                                <td>{entry.last_error || "—"}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <h2>Delivery events</h2>
+            {events.length === 0 ? (
+                <p>No delivery events received.</p>
+            ) : (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Time</th>
+                            <th>Event</th>
+                            <th>Recipient</th>
+                            <th>Detail</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {events.map(event => (
+                            <tr key={event.provider_event_id}>
+                                <td>{formatDate(event.occurred_at)}</td>
+                                <td>{event.event}</td>
+                                <td>{event.recipient || "—"}</td>
+                                <td>{event.detail || "—"}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,150 @@
+'use server';
+
+/**
+ * Admin Dashboard Server Actions
+ *
+ * Every action re-checks the admin session before touching data.
+ */
+
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import { signIn, signOut, requireAdminSession } from '@/lib/admin-session';
+import {
+    getSubmissionById,
+    removeEmailSuppression,
+    SUBMISSION_CLASSIFICATIONS,
+    SubmissionClassification,
+} from '@/lib/supabase';
+import { resendSubmissionEmail } from '@/lib/outbox';
+import { reissueReward } from '@/lib/rewards';
+import { reclassifySubmission } from '@/lib/review';
+import { resolvePreviewOptions, sendTestEmail, EmailPreviewParams } from '@/lib/emails/preview';
+
+function submissionPath(id: string, notice?: string): string {
+    return `/admin/submissions/${id}${notice ? `?notice=${encodeURIComponent(notice)}` : ''}`;
+}
+
+export async function loginAction(formData: FormData) {
+    const token = String(formData.get('token') || '');
+
+    if (!signIn(token)) {
+        redirect('/admin/login?error=1');
+    }
+
+    redirect('/admin');
+}
+
+export async function logoutAction() {
+    signOut();
+    redirect('/admin/login');
+}
+
+export async function resendEmailAction(formData: FormData) {
+    requireAdminSession();
+    const id = String(formData.get('id'));
+    const recipient = String(formData.get('recipient') || '').trim() || undefined;
+
+    const submission = await getSubmissionById(id);
+    if (!submission) {
+        redirect(submissionPath(id, 'Submission not found'));
+    }
+
+    let notice: string;
+    try {
+        const delivery = await resendSubmissionEmail({ ...submission, id }, recipient);
+        notice = delivery?.success
+            ? `Email resent${recipient ? ` to ${recipient}` : ''}`
+            : delivery?.cancelled
+                ? `Email not sent: ${delivery.error}`
+                : `Email queued for retry: ${delivery?.error ?? 'in flight'}`;
+    } catch (error) {
+        notice = error instanceof Error ? error.message : 'Failed to resend email';
+    }
+
+    revalidatePath(submissionPath(id));
+    redirect(submissionPath(id, notice));
+}
+
+export async function removeSuppressionAction(formData: FormData) {
+    requireAdminSession();
+    const id = String(formData.get('id'));
+
+    const submission = await getSubmissionById(id);
+    if (!submission) {
+        redirect(submissionPath(id, 'Submission not found'));
+    }
+
+    let notice: string;
+    try {
+        await removeEmailSuppression(submission.email);
+        notice = `${submission.email} can be emailed again`;
+    } catch (error) {
+        notice = error instanceof Error ? error.message : 'Failed to remove suppression';
+    }
+
+    revalidatePath(submissionPath(id));
+    redirect(submissionPath(id, notice));
+}
+
+export async function reissueCodeAction(formData: FormData) {
+    requireAdminSession();
+    const id = String(formData.get('id'));
+
+    let notice: string;
+    try {
+        const outcome = await reissueReward(id);
+        notice = outcome.success
+            ? `Reward reissued${outcome.promoCode ? `: ${outcome.promoCode}` : ''}`
+            : `Reissue failed: ${outcome.error ?? 'submission not claimable'}`;
+    } catch (error) {
+        notice = error instanceof Error ? error.message : 'Failed to reissue reward';
+    }
+
+    revalidatePath(submissionPath(id));
+    redirect(submissionPath(id, notice));
+}
+
+export async function reclassifyAction(formData: FormData) {
+    requireAdminSession();
+    const id = String(formData.get('id'));
+    const classification = String(formData.get('classification')) as SubmissionClassification;
+    const note = String(formData.get('note') || '') || undefined;
+
+    if (!SUBMISSION_CLASSIFICATIONS.includes(classification)) {
+        redirect(submissionPath(id, 'Unknown classification'));
+    }
+
+    let notice: string;
+    try {
+        const result = await reclassifySubmission(id, classification, { reviewedBy: 'admin-dashboard', note });
+        notice = !result
+            ? 'Submission not found'
+            : result.reward && !result.reward.success
+                ? `Reclassified, but reward failed: ${result.reward.error}`
+                : `Reclassified as ${classification}`;
+    } catch (error) {
+        notice = error instanceof Error ? error.message : 'Failed to reclassify';
+    }
+
+    revalidatePath(submissionPath(id));
+    redirect(submissionPath(id, notice));
+}
+
+export async function sendTestEmailAction(formData: FormData) {
+    requireAdminSession();
+    const to = String(formData.get('to') || '');
+    const query = String(formData.get('query') || '');
+
+    let notice: string;
+    try {
+        const params = Object.fromEntries(new URLSearchParams(query)) as EmailPreviewParams;
+        const result = await sendTestEmail(to, await resolvePreviewOptions(params));
+        notice = result.success ? `Test email sent to ${to}` : `Test email failed: ${result.error}`;
+    } catch (error) {
+        notice = error instanceof Error ? error.message : 'Failed to send test email';
+    }
+
+    const params = new URLSearchParams(query);
+    params.set('notice', notice);
+    redirect(`/admin/emails?${params.toString()}`);
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import "./admin.css";
+
+export const metadata: Metadata = {
+    title: "Survey Admin",
+    robots: { index: false, follow: false },
+};
+
+// Admin pages read live data on every request
+export const dynamic = "force-dynamic";
+
+export default function AdminLayout({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    return <div className="admin">{children}</div>;
+}
@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+import { hasAdminSession } from "@/lib/admin-session";
+import { loginAction } from "../actions";
+
+export default function AdminLoginPage({
+    searchParams,
+}: {
+    searchParams: { error?: string };
+}) {
+    if (hasAdminSession()) {
+        redirect("/admin");
+    }
+
+    return (
+        <form action={loginAction} className="admin-login">
+            <h1>Survey Admin</h1>
+            {searchParams.error && <p>Invalid token.</p>}
+            <input type="password" name="token" placeholder="Admin token" autoFocus required />
+            <button type="submit">Sign in</button>
+        </form>
+    );
+}
@@ -0,0 +1,51 @@
+/**
+ * Admin Survey Analytics
+ *
+ * Per-question aggregates for one form.
+ * Query params: formId (required), classification (comma-separated, default all),
+ * version (form version id, default all versions)
+ * e.g. ?formId=OD7dp7&classification=valid,needs_review
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFormAnalytics, parseClassifications } from '@/lib/analytics';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+export async function GET(request: NextRequest) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = request.nextUrl;
+        const formId = searchParams.get('formId');
+        if (!formId) {
+            return NextResponse.json(
+                { error: 'Missing formId' },
+                { status: 400 }
+            );
+        }
+
+        const classifications = parseClassifications(searchParams.get('classification'));
+        if (!classifications || classifications.length === 0) {
+            return NextResponse.json(
+                { error: 'Invalid classification filter' },
+                { status: 400 }
+            );
+        }
+
+        const analytics = await getFormAnalytics(formId, classifications, searchParams.get('version') ?? undefined);
+        return NextResponse.json(analytics);
+
+    } catch (error) {
+        console.error('[Admin Analytics] Error building analytics:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Admin Submission Export
+ *
+ * Streams submissions as CSV or NDJSON with one column per question.
+ * Query params:
+ * - format: csv (default) | ndjson
+ * - multiSelect: join (default) | onehot
+ * - columns: comma-separated submission columns and/or Tally field keys (default all)
+ * - formId, campaignId, classification: row filters
+ * - from, to: created_at range (ISO timestamp or YYYY-MM-DD, inclusive)
+ * - redactPii: true to mask email, promo code and email/phone answers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildExportColumns, streamSubmissions, ExportOptions } from '@/lib/export';
+import { SUBMISSION_CLASSIFICATIONS, SubmissionClassification, SubmissionFilters } from '@/lib/supabase';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+// Large exports page through the table
+export const maxDuration = 300;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a range bound; date-only `to` values cover the whole day
+ */
+function parseDateBound(value: string | null, bound: 'from' | 'to'): string | undefined | null {
+    if (!value) return undefined;
+
+    const iso = DATE_ONLY.test(value)
+        ? `${value}T${bound === 'from' ? '00:00:00.000' : '23:59:59.999'}Z`
+        : value;
+
+    return Number.isNaN(Date.parse(iso)) ? null : new Date(iso).toISOString();
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = request.nextUrl;
+
+        const format = searchParams.get('format') || 'csv';
+        const multiSelect = searchParams.get('multiSelect') || 'join';
+        if ((format !== 'csv' && format !== 'ndjson') || (multiSelect !== 'join' && multiSelect !== 'onehot')) {
+            return NextResponse.json(
+                { error: 'format must be csv or ndjson, multiSelect must be join or onehot' },
+                { status: 400 }
+            );
+        }
+
+        const classification = searchParams.get('classification');
+        if (classification && !SUBMISSION_CLASSIFICATIONS.includes(classification as SubmissionClassification)) {
+            return NextResponse.json(
+                { error: 'Invalid classification filter' },
+                { status: 400 }
+            );
+        }
+
+        const from = parseDateBound(searchParams.get('from'), 'from');
+        const to = parseDateBound(searchParams.get('to'), 'to');
+        if (from === null || to === null) {
+            return NextResponse.json(
+                { error: 'from and to must be ISO timestamps or YYYY-MM-DD dates' },
+                { status: 400 }
+            );
+        }
+
+        const filters: SubmissionFilters = {
+            classification: (classification as SubmissionClassification) || undefined,
+            campaignId: searchParams.get('campaignId') || undefined,
+            formId: searchParams.get('formId') || undefined,
+            from,
+            to,
+        };
+
+        const options: ExportOptions = {
+            format,
+            multiSelect,
+            redactPii: searchParams.get('redactPii') === 'true',
+            columns: searchParams.get('columns')?.split(',').map(c => c.trim()).filter(Boolean),
+        };
+
+        const { columns, unknown } = await buildExportColumns(filters, options);
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { error: 'Unknown columns', columns: unknown },
+                { status: 400 }
+            );
+        }
+
+        const filename = `submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+        console.log('[Admin Export] Streaming', format, 'export with', columns.length, 'columns');
+
+        return new Response(streamSubmissions(filters, columns, options), {
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+
+    } catch (error) {
+        console.error('[Admin Export] Error exporting submissions:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Admin Form Versions
+ *
+ * Every structure a form has been submitted with, oldest first, with the
+ * changes from the version before and any attention-check rules the version
+ * breaks under the form's current campaign settings.
+ * Query params: formId (required)
+ * e.g. ?formId=OD7dp7
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { summarizeFormVersions } from '@/lib/form-versions';
+import { resolveCampaignForForm } from '@/lib/campaigns';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+export async function GET(request: NextRequest) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const formId = request.nextUrl.searchParams.get('formId');
+        if (!formId) {
+            return NextResponse.json(
+                { error: 'Missing formId' },
+                { status: 400 }
+            );
+        }
+
+        const campaign = await resolveCampaignForForm(formId);
+        const versions = await summarizeFormVersions(formId, campaign.attentionChecks);
+        return NextResponse.json({ formId, versions });
+
+    } catch (error) {
+        console.error('[Admin Form Versions] Error listing form versions:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * Admin Review - Approve
+ *
+ * Approves a held submission and runs the reward flow (campaign reward + reward email).
+ * Body (optional): { reviewedBy?: string, note?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { approveSubmission } from '@/lib/review';
+import { DuplicateSubmissionError } from '@/lib/supabase';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const result = await approveSubmission(params.id, {
+            reviewedBy: body.reviewedBy || 'admin',
+            note: body.note,
+        });
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Submission is not awaiting review' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: result.reward.success,
+            submissionId: params.id,
+            promoCode: result.reward.promoCode,
+            emailSent: result.reward.emailSent,
+            error: result.reward.error,
+        });
+
+    } catch (error) {
+        if (error instanceof DuplicateSubmissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+
+        console.error('[Admin Review] Error approving submission:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * Admin Review - Reject
+ *
+ * Rejects a held submission. No reward is issued.
+ * Body (optional): { reviewedBy?: string, note?: string, sendAbuseEmail?: boolean }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectSubmission } from '@/lib/review';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const result = await rejectSubmission(
+            params.id,
+            { reviewedBy: body.reviewedBy || 'admin', note: body.note },
+            body.sendAbuseEmail === true
+        );
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Submission is not awaiting review' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            submissionId: params.id,
+            abuseEmailSent: result.abuseEmail?.success ?? false,
+        });
+
+    } catch (error) {
+        console.error('[Admin Review] Error rejecting submission:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Admin Review Queue
+ *
+ * Lists submissions held as needs_review.
+ * Query params: campaignId, limit (default 50, max 200), offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubmissionsForReview } from '@/lib/supabase';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = request.nextUrl;
+        const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+        const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+        const submissions = await listSubmissionsForReview({
+            campaignId: searchParams.get('campaignId') || undefined,
+            limit,
+            offset,
+        });
+
+        return NextResponse.json({
+            submissions,
+            limit,
+            offset,
+        });
+
+    } catch (error) {
+        console.error('[Admin Review] Error listing review queue:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Admin Reward Code Pool
+ *
+ * GET: number of unassigned codes left in the pool
+ * POST: upload codes as CSV (text/csv body, one code per row in the first
+ * column; an optional "code" header row is skipped). Codes already in the
+ * pool are ignored, so re-uploading a file is safe.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { insertPoolCodes, countAvailablePoolCodes } from '@/lib/supabase';
+import { verifyAdminToken } from '@/lib/webhook-auth';
+
+// Keep each insert well under PostgREST request limits
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * First column of each CSV row, unquoted and trimmed
+ */
+function parseCodes(csv: string): string[] {
+    const codes = csv
+        .split(/\r?\n/)
+        .map(line => line.split(',')[0].trim().replace(/^"(.*)"$/, '$1').trim())
+        .filter(Boolean);
+
+    if (codes[0]?.toLowerCase() === 'code') {
+        codes.shift();
+    }
+
+    return Array.from(new Set(codes));
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { pool: string } }
+) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const available = await countAvailablePoolCodes(params.pool);
+        return NextResponse.json({ pool: params.pool, available });
+
+    } catch (error) {
+        console.error('[Reward Pools] Error counting pool codes:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { pool: string } }
+) {
+    try {
+        const verification = verifyAdminToken(request.headers.get('authorization'));
+        if (!verification.verified) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const codes = parseCodes(await request.text());
+        if (codes.length === 0) {
+            return NextResponse.json(
+                { error: 'No codes found in CSV body' },
+                { status: 400 }
+            );
+        }
+
+        let added = 0;
+        for (let i = 0; i < codes.length; i += INSERT_BATCH_SIZE) {
+            added += await insertPoolCodes(params.pool, codes.slice(i, i + INSERT_BATCH_SIZE));
+        }
+
+        const available = await countAvailablePoolCodes(params.pool);
+        console.log(`[Reward Pools] Added ${added} of ${codes.length} codes to pool ${params.pool}`);
+
+        return NextResponse.json({
+            pool: params.pool,
+            received: codes.length,
+            added,
+            available,
+        });
+
+    } catch (error) {
+        console.error('[Reward Pools] Error uploading pool codes:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Email Outbox Sweeper (Cron)
+ *
+ * Invoked on a schedule by Vercel Cron. Recovers from mail provider outages by:
+ * 1. Picking up submissions still owed an email that never reached the outbox
+ *    (valid rows re-enter the reward lifecycle, attention fails get an abuse email queued)
+ * 2. Delivering due outbox entries, with backoff and dead-lettering on repeated failure
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findUnqueuedSubmissions } from '@/lib/supabase';
+import { processReward } from '@/lib/rewards';
+import { resolveCampaignForSubmission } from '@/lib/campaigns';
+import { queueAbuseEmail, drainOutbox } from '@/lib/outbox';
+import { verifyCronSecret } from '@/lib/webhook-auth';
+
+const BATCH_SIZE = 25;
+
+// Keep within the serverless function time limit
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+    console.log('[Outbox Cron] Sweep started');
+
+    try {
+        // 1. Authenticate the cron invocation
+        const verification = verifyCronSecret(request.headers.get('authorization'));
+        if (!verification.verified) {
+            console.error('[Outbox Cron] Authentication failed:', verification.reason);
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        // 2. Enqueue submissions that never made it into the outbox
+        const unqueued = await findUnqueuedSubmissions(BATCH_SIZE);
+        let rewardsResumed = 0;
+        let abuseQueued = 0;
+
+        for (const submission of unqueued) {
+            if (!submission.id) continue;
+
+            // One bad submission must not stop the rest of the sweep (or the outbox drain below)
+            try {
+                if (submission.classification === 'valid') {
+                    await processReward(submission.id);
+                    rewardsResumed++;
+                } else if (submission.classification === 'attention_fail') {
+                    const campaign = await resolveCampaignForSubmission(submission);
+                    await queueAbuseEmail({ ...submission, id: submission.id }, campaign.emailTemplates.abuse);
+                    abuseQueued++;
+                }
+            } catch (error) {
+                console.error('[Outbox Cron] Error recovering submission', submission.id, error);
+            }
+        }
+
+        // 3. Deliver due outbox entries
+        const results = await drainOutbox(BATCH_SIZE);
+        const sent = results.filter(r => r.success).length;
+        const deadLettered = results.filter(r => r.deadLettered).length;
+        const cancelled = results.filter(r => r.cancelled).length;
+
+        const summary = {
+            rewardsResumed,
+            abuseQueued,
+            attempted: results.length,
+            sent,
+            failed: results.length - sent - cancelled,
+            deadLettered,
+            cancelled,
+        };
+        console.log('[Outbox Cron] Sweep completed:', summary);
+
+        return NextResponse.json({
+            success: true,
+            ...summary,
+        });
+
+    } catch (error) {
+        console.error('[Outbox Cron] FATAL ERROR:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Reward Reminders (Cron)
+ *
+ * Invoked on a schedule by Vercel Cron. Sends reminder emails for promotion
+ * codes that are still unredeemed (see lib/reminders.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runRewardReminders } from '@/lib/reminders';
+import { verifyCronSecret } from '@/lib/webhook-auth';
+
+const BATCH_SIZE = 50;
+
+// Keep within the serverless function time limit
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+    console.log('[Reminders Cron] Run started');
+
+    try {
+        // 1. Authenticate the cron invocation
+        const verification = verifyCronSecret(request.headers.get('authorization'));
+        if (!verification.verified) {
+            console.error('[Reminders Cron] Authentication failed:', verification.reason);
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        // 2. Check due submissions and queue their reminders
+        const summary = await runRewardReminders(BATCH_SIZE);
+        console.log('[Reminders Cron] Run completed:', summary);
+
+        return NextResponse.json({
+            success: true,
+            ...summary,
+        });
+
+    } catch (error) {
+        console.error('[Reminders Cron] FATAL ERROR:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
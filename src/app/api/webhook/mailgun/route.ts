@@ -0,0 +1,58 @@
+/**
+ * Mailgun Webhook Endpoint
+ *
+ * Receives delivery events for sent emails (configure the delivered, opened,
+ * permanent_fail, temporary_fail and complained webhooks to point here) and
+ * records them against the submission (see src/lib/email-events.ts).
+ *
+ * The signature is verified with MAILGUN_WEBHOOK_SIGNING_KEY. Events are logged
+ * by their Mailgun id, so redeliveries are harmless; errors return 500 so
+ * Mailgun retries.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMailgunSignature, MailgunSignature } from '@/lib/webhook-auth';
+import { recordMailgunEvent, MailgunEventData } from '@/lib/email-events';
+
+interface MailgunWebhookBody {
+    signature?: MailgunSignature;
+    'event-data'?: MailgunEventData;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Verify the signature
+        const body = await request.json().catch(() => null) as MailgunWebhookBody | null;
+        const verification = verifyMailgunSignature(body?.signature);
+        if (!verification.verified) {
+            console.error('[Mailgun Webhook] Signature verification failed:', verification.reason);
+            return NextResponse.json(
+                { error: 'Invalid signature' },
+                { status: 401 }
+            );
+        }
+
+        const eventData = body?.['event-data'];
+        if (!eventData?.id || !eventData.event) {
+            return NextResponse.json(
+                { error: 'Missing event-data' },
+                { status: 400 }
+            );
+        }
+
+        console.log('[Mailgun Webhook] Received', eventData.event, eventData.id);
+
+        // 2. Record the event against the submission
+        const outcome = await recordMailgunEvent(eventData);
+
+        console.log('[Mailgun Webhook] Event', outcome);
+        return NextResponse.json({ success: true, outcome });
+
+    } catch (error) {
+        console.error('[Mailgun Webhook] Error processing webhook:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Stripe Webhook Endpoint
+ *
+ * Tracks what happens to reward promotion codes after they are emailed:
+ * - customer.discount.created: the code was applied -> reward_redeemed_at
+ * - invoice.paid: an invoice using the code was paid -> reward_paid_at / amount
+ *
+ * The signature is verified with STRIPE_WEBHOOK_SECRET. Updates only fill empty
+ * columns, so Stripe's redeliveries are harmless. Codes not issued by this system
+ * are ignored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { constructWebhookEvent } from '@/lib/stripe';
+import { recordRewardRedemption, recordRewardPayment } from '@/lib/supabase';
+
+const STRIPE_SIGNATURE_HEADER = 'stripe-signature';
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+    if (!value) return null;
+    return typeof value === 'string' ? value : value.id;
+}
+
+function toIso(unixSeconds: number | null | undefined): string {
+    return new Date((unixSeconds ?? Math.floor(Date.now() / 1000)) * 1000).toISOString();
+}
+
+/**
+ * Promotion codes applied to an invoice (expanded discounts only carry their id)
+ */
+function invoicePromotionCodes(invoice: Stripe.Invoice): string[] {
+    const discounts = [invoice.discount, ...(invoice.discounts ?? [])]
+        .filter((d): d is Stripe.Discount => !!d && typeof d !== 'string' && d.object === 'discount');
+
+    return Array.from(new Set(
+        discounts.map(d => idOf(d.promotion_code)).filter((id): id is string => !!id)
+    ));
+}
+
+async function handleDiscountCreated(discount: Stripe.Discount): Promise<string> {
+    const promotionCodeId = idOf(discount.promotion_code);
+    if (!promotionCodeId) {
+        return 'Discount without promotion code ignored';
+    }
+
+    const recorded = await recordRewardRedemption(promotionCodeId, {
+        redeemedAt: toIso(discount.start),
+        customerId: idOf(discount.customer),
+    });
+
+    return recorded ? `Redemption recorded for ${promotionCodeId}` : 'Not a reward code or already recorded';
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<string> {
+    const promotionCodeIds = invoicePromotionCodes(invoice);
+    if (promotionCodeIds.length === 0) {
+        return 'Invoice without promotion code ignored';
+    }
+
+    const paidAt = toIso(invoice.status_transitions?.paid_at);
+    const recorded: string[] = [];
+
+    for (const promotionCodeId of promotionCodeIds) {
+        // A paid invoice also implies redemption, in case that event was missed
+        await recordRewardRedemption(promotionCodeId, { redeemedAt: paidAt, customerId: idOf(invoice.customer) });
+
+        const paid = await recordRewardPayment(promotionCodeId, {
+            paidAt,
+            amount: invoice.amount_paid,
+            currency: invoice.currency,
+        });
+        if (paid) recorded.push(promotionCodeId);
+    }
+
+    return recorded.length > 0 ? `Payment recorded for ${recorded.join(', ')}` : 'Not a reward code or already recorded';
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Verify the signature against the raw body
+        const rawBody = await request.text();
+        let event: Stripe.Event;
+        try {
+            event = constructWebhookEvent(rawBody, request.headers.get(STRIPE_SIGNATURE_HEADER));
+        } catch (error) {
+            console.error('[Stripe Webhook] Signature verification failed:', error instanceof Error ? error.message : error);
+            return NextResponse.json(
+                { error: 'Invalid signature' },
+                { status: 401 }
+            );
+        }
+
+        console.log('[Stripe Webhook] Received', event.type, event.id);
+
+        // 2. Record redemptions and payments for reward codes
+        let message: string;
+        switch (event.type) {
+            case 'customer.discount.created':
+                message = await handleDiscountCreated(event.data.object);
+                break;
+            case 'invoice.paid':
+                message = await handleInvoicePaid(event.data.object);
+                break;
+            default:
+                message = 'Event ignored';
+        }
+
+        console.log('[Stripe Webhook]', message);
+        return NextResponse.json({ success: true, message });
+
+    } catch (error) {
+        console.error('[Stripe Webhook] Error processing webhook:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
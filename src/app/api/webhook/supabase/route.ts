@@ -2,25 +2,25 @@
  * Supabase Webhook Endpoint
  * 
  * Triggered when a new valid submission is inserted into the database.
- * Creates a Stripe promo code and sends the reward email.
+ * Authenticated with a shared secret header; the submission is re-loaded from
+ * the database so only stored, unrewarded valid rows are rewarded.
+ * Creates a Stripe promo code and sends the reward email exactly once
+ * through the reward lifecycle (see lib/rewards.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createPromoCode } from '@/lib/stripe';
-import { sendRewardEmail } from '@/lib/mailgun';
-import { updateSubmissionWithReward, getSubmissionById } from '@/lib/supabase';
+import { getSubmissionById } from '@/lib/supabase';
+import { processReward } from '@/lib/rewards';
+import { verifySupabaseWebhookSecret, SUPABASE_WEBHOOK_SECRET_HEADER } from '@/lib/webhook-auth';
 
 // Supabase webhook payload structure for INSERT events
+// Only record.id is used; everything else is re-read from the database
 interface SupabaseWebhookPayload {
     type: 'INSERT' | 'UPDATE' | 'DELETE';
     table: string;
     schema: string;
     record: {
         id: string;
-        email: string;
-        classification: 'valid' | 'bot' | 'attention_fail';
-        promo_code?: string;
-        email_sent?: boolean;
     };
     old_record?: unknown;
 }
@@ -29,11 +29,21 @@ export async function POST(request: NextRequest) {
     console.log('Received Supabase webhook');
 
     try {
-        // 1. Parse payload
+        // 1. Authenticate the webhook via shared secret header
+        const verification = verifySupabaseWebhookSecret(request.headers.get(SUPABASE_WEBHOOK_SECRET_HEADER));
+        if (!verification.verified) {
+            console.error('Supabase webhook authentication failed:', verification.reason);
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        // 2. Parse payload
         const payload: SupabaseWebhookPayload = await request.json();
         console.log('Supabase event:', payload.type, 'for table:', payload.table);
 
-        // 2. Only process INSERT events on submissions table
+        // 3. Only process INSERT events on submissions table
         if (payload.type !== 'INSERT' || payload.table !== 'submissions') {
             return NextResponse.json({
                 success: true,
@@ -41,9 +51,24 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        const { record } = payload;
+        // 4. Re-load the stored row - the payload body is never trusted for reward data
+        if (!payload.record?.id) {
+            return NextResponse.json(
+                { error: 'Missing record id' },
+                { status: 400 }
+            );
+        }
+
+        const record = await getSubmissionById(payload.record.id);
+        if (!record || !record.id) {
+            console.error('Submission not found for webhook record:', payload.record.id);
+            return NextResponse.json(
+                { error: 'Submission not found' },
+                { status: 404 }
+            );
+        }
 
-        // 3. Only process valid submissions
+        // 5. Only process valid submissions
         if (record.classification !== 'valid') {
             console.log('Ignoring non-valid submission:', record.id);
             return NextResponse.json({
@@ -52,8 +77,8 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // 4. Skip if reward already sent
-        if (record.promo_code || record.email_sent) {
+        // 6. Skip if reward already sent
+        if (record.reward_status === 'email_sent') {
             console.log('Reward already processed for:', record.id);
             return NextResponse.json({
                 success: true,
@@ -61,29 +86,28 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // 5. Create Stripe promo code
-        console.log('Creating promo code for:', record.email);
-        const promoCode = await createPromoCode(record.email);
-
-        // 6. Send reward email
-        console.log('Sending reward email to:', record.email);
-        const emailResult = await sendRewardEmail(record.email, promoCode);
+        // 7. Claim and run the reward lifecycle (promo code + reward email)
+        const outcome = await processReward(record.id);
 
-        if (!emailResult.success) {
-            console.error('Failed to send reward email:', emailResult.error);
-            // Still update the record with promo code even if email fails
-            // This can be retried manually
+        if (!outcome.processed) {
+            return NextResponse.json({
+                success: true,
+                message: 'Already processed or in progress',
+            });
         }
 
-        // 7. Update submission record
-        await updateSubmissionWithReward(record.id, promoCode);
-
-        console.log('Reward flow completed for:', record.email, 'with code:', promoCode);
+        if (!outcome.success) {
+            console.error('Reward flow failed for:', record.id, '-', outcome.error);
+            return NextResponse.json(
+                { error: 'Reward processing failed', promoCode: outcome.promoCode },
+                { status: 500 }
+            );
+        }
 
         return NextResponse.json({
             success: true,
-            promoCode,
-            emailSent: emailResult.success,
+            promoCode: outcome.promoCode,
+            emailSent: outcome.emailSent,
         });
 
     } catch (error) {
@@ -1,99 +1,36 @@
 /**
  * Tally Webhook Endpoint
  * 
- * Receives survey submissions from Tally, validates them,
- * and routes them to the appropriate handler:
+ * Receives survey submissions from Tally, verifies their signature, checks the payload
+ * shape (see tally-payload.ts), validates them, and routes them to the appropriate handler:
  * - Valid: Insert into Supabase (triggers reward flow)
- * - Duplicate: Silent drop (already rewarded)
+ * - Duplicate: Not stored as a submission, logged to duplicate_attempts
+ * - Bot: Stored with its bot score, no email
+ * - Rejected: Disposable email blocked by policy, stored, no email
+ * - Needs review: Borderline signals, held for an admin decision, no email
  * - Attention fail: Send abuse email
- * 
- * Note: Bot detection is handled by Tally's built-in CAPTCHA
+ *
+ * Note: Bot heuristics complement Tally's built-in CAPTCHA
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateSubmission, extractEmail, TallySubmission } from '@/lib/validation';
-import { insertSubmission } from '@/lib/supabase';
-import { sendAbuseEmail } from '@/lib/mailgun';
-
-// Tally webhook payload structure - includes options for multiple choice
-interface TallyFieldOption {
-    id: string;
-    text: string;
-    isOtherOption?: boolean;
-    optionId?: string;
-}
-
-interface TallyField {
-    key: string;
-    label: string;
-    type: string;
-    value: unknown;
-    options?: TallyFieldOption[];
-}
-
-interface TallyWebhookPayload {
-    eventId: string;
-    eventType: 'FORM_RESPONSE';
-    createdAt: string;
-    data: {
-        responseId: string;
-        respondentId?: string;
-        formId: string;
-        formName: string;
-        createdAt: string;
-        fields: TallyField[];
-    };
-}
-
-/**
- * Resolve option IDs to text values for MULTIPLE_CHOICE fields
- */
-function resolveOptionValue(field: TallyField): string | string[] | null {
-    // If value is null, return null
-    if (field.value === null || field.value === undefined) {
-        return null;
-    }
-
-    // If not a MULTIPLE_CHOICE or no options, return value as-is
-    if (field.type !== 'MULTIPLE_CHOICE' || !field.options) {
-        return field.value as string;
-    }
-
-    // Value is an array of option IDs - resolve to text
-    if (Array.isArray(field.value)) {
-        const resolvedValues = field.value.map(optionId => {
-            const option = field.options!.find(opt => opt.id === optionId);
-            return option ? option.text : optionId; // Fallback to ID if not found
-        });
-        // If single selection, return as string; otherwise as array
-        return resolvedValues.length === 1 ? resolvedValues[0] : resolvedValues;
-    }
-
-    return field.value as string;
-}
-
-/**
- * Convert Tally fields to a readable format for storage
- * Preserves order by using index, resolves option IDs to text
- */
-function tallyFieldsToAnswers(fields: TallyField[]): Record<string, unknown> {
-    const answers: Record<string, unknown> = {};
-
-    fields.forEach((field, index) => {
-        const resolvedValue = resolveOptionValue(field);
-
-        answers[field.key] = {
-            index: index, // Preserve order
-            title: field.label,
-            type: field.type,
-            value: resolvedValue,
-            // Also store raw value for debugging if needed
-            rawValue: field.value,
-        };
-    });
-
-    return answers;
-}
+import { validateSubmission, extractEmail, TallySubmission, ClassificationResult } from '@/lib/validation';
+import {
+    insertSubmission,
+    insertDuplicateAttempt,
+    findExistingSubmission,
+    isResponseProcessed,
+    DuplicateSubmissionError,
+    Submission,
+    FormVersion,
+} from '@/lib/supabase';
+import { queueAbuseEmail, deliverOutboxEmail } from '@/lib/outbox';
+import { verifyTallySignature, TALLY_SIGNATURE_HEADER } from '@/lib/webhook-auth';
+import { resolveCampaignForForm, isCampaignOpen, ResolvedCampaign } from '@/lib/campaigns';
+import { extractRespondentProfile, RespondentProfile } from '@/lib/respondent';
+import { parseTallyPayload, TallyPayloadError, TallyWebhookPayload } from '@/lib/tally-payload';
+import { normalizeAnswers, toStoredAnswers } from '@/lib/answers';
+import { recordFormVersion } from '@/lib/form-versions';
 
 /**
  * Transform Tally payload to internal format
@@ -103,17 +40,40 @@ function transformTallyPayload(payload: TallyWebhookPayload): TallySubmission {
 
     return {
         responseId: data.responseId,
+        formId: data.formId,
         respondentId: data.respondentId,
         submittedAt: payload.createdAt,
         createdAt: data.createdAt,
-        fields: data.fields.map(field => ({
-            field: {
-                id: field.key,
-                title: field.label,
-                type: field.type,
-            },
-            value: field.value,
-        })),
+        answers: normalizeAnswers(data.fields),
+    };
+}
+
+/**
+ * Campaign, form version, email screening, bot assessment and attention check columns stored with every persisted submission
+ */
+function derivedColumns(
+    result: ClassificationResult,
+    campaign: ResolvedCampaign,
+    formVersion: FormVersion,
+    respondent: RespondentProfile
+): Partial<Submission> {
+    return {
+        form_id: campaign.formId,
+        campaign_id: campaign.campaignId,
+        form_version_id: formVersion.id,
+        locale: respondent.locale,
+        respondent_name: respondent.name,
+        email_canonical: result.emailCanonical,
+        email_flags: result.emailFlags,
+        ...(result.bot && {
+            bot_score: result.bot.score,
+            bot_signals: result.bot.signals,
+            answer_fingerprint: result.bot.fingerprint,
+            submission_time_seconds: result.bot.submissionTimeSeconds,
+        }),
+        ...(result.attention && {
+            attention_checks: result.attention.outcomes,
+        }),
     };
 }
 
@@ -121,15 +81,66 @@ export async function POST(request: NextRequest) {
     console.log('[Tally Webhook] Received request');
 
     try {
-        // 1. Parse payload
-        const payload: TallyWebhookPayload = await request.json();
+        // 1. Verify signature against the raw body, then parse payload
+        const rawBody = await request.text();
+        const verification = verifyTallySignature(rawBody, request.headers.get(TALLY_SIGNATURE_HEADER));
+
+        if (!verification.verified) {
+            console.error('[Tally Webhook] ERROR: Signature verification failed -', verification.reason);
+            return NextResponse.json(
+                { error: 'Invalid signature' },
+                { status: 401 }
+            );
+        }
+
+        let body: unknown;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            console.error('[Tally Webhook] ERROR: Body is not valid JSON');
+            return NextResponse.json(
+                { error: 'Invalid JSON' },
+                { status: 400 }
+            );
+        }
+
+        const parsed = parseTallyPayload(body);
+        if (parsed.event === 'ignored') {
+            console.log('[Tally Webhook] Ignoring event type:', parsed.eventType, parsed.eventId);
+            return NextResponse.json({
+                success: true,
+                message: 'Event ignored',
+            });
+        }
+
+        const { payload } = parsed;
         console.log('[Tally Webhook] Processing submission:', payload.data.responseId, 'from form:', payload.data.formName);
 
+        // Tally retried a response we already handled - acknowledge it before it is
+        // validated again (it would otherwise count as a duplicate of itself)
+        if (await isResponseProcessed(payload.data.responseId)) {
+            console.log('[Tally Webhook] Response already processed:', payload.data.responseId);
+            return NextResponse.json({
+                success: true,
+                message: 'Already processed',
+            });
+        }
+
         // 2. Transform to internal format
         const submission = transformTallyPayload(payload);
 
-        // 3. Extract email
-        const email = extractEmail(submission.fields);
+        // 3. Resolve the campaign for this form and make sure it is accepting submissions
+        const campaign = await resolveCampaignForForm(payload.data.formId);
+        if (!isCampaignOpen(campaign)) {
+            console.log('[Tally Webhook] CAMPAIGN CLOSED: Ignoring submission for', campaign.name);
+            return NextResponse.json({
+                success: true,
+                classification: 'campaign_closed',
+            });
+        }
+
+        // 4. Extract email
+        const email = extractEmail(submission.answers);
         console.log('[Tally Webhook] Email extracted:', email);
 
         if (!email) {
@@ -140,15 +151,21 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // 4. Prepare answers with resolved option values
-        const answersToSave = tallyFieldsToAnswers(payload.data.fields);
+        // 5. Record the form structure this response was answered against
+        const formVersion = await recordFormVersion(payload.data.formId, payload.data.formName, payload.data.fields, campaign.attentionChecks);
 
-        // 5. Run validation (attention-check + duplicate detection)
+        // 6. Prepare answers for storage (normalized, with resolved option values)
+        const answersToSave = toStoredAnswers(submission.answers);
+        const respondent = extractRespondentProfile(submission.answers, campaign);
+
+        // 7. Run validation (duplicate detection + bot heuristics + attention checks)
         console.log('[Tally Webhook] Running validation...');
-        const validationResult = await validateSubmission(submission);
+        const validationResult = await validateSubmission(submission, campaign);
         console.log('[Tally Webhook] Validation result:', validationResult.classification, '-', validationResult.reason);
 
-        // 6. Handle based on classification
+        // 8. Handle based on classification
+        let classification = validationResult.classification;
+
         switch (validationResult.classification) {
             case 'valid':
                 console.log('[Tally Webhook] Inserting VALID submission to Supabase...');
@@ -159,9 +176,26 @@ export async function POST(request: NextRequest) {
                         answers: answersToSave,
                         classification: 'valid',
                         classification_reason: validationResult.reason,
+                        ...derivedColumns(validationResult, campaign, formVersion, respondent),
                     });
                     console.log('[Tally Webhook] SUCCESS: Valid submission stored with ID:', insertedRecord?.id);
                 } catch (insertError) {
+                    // A concurrent submission from the same email won the race for the reward
+                    if (insertError instanceof DuplicateSubmissionError && insertError.conflict === 'email') {
+                        console.log('[Tally Webhook] DUPLICATE (concurrent): Submission ignored for', email);
+                        classification = 'duplicate';
+                        await insertDuplicateAttempt({
+                            original_submission_id: validationResult.emailCanonical
+                                ? (await findExistingSubmission(validationResult.emailCanonical, campaign.campaignId))?.id ?? null
+                                : null,
+                            campaign_id: campaign.campaignId,
+                            email,
+                            tally_response_id: submission.responseId,
+                            reason: 'concurrent_submission',
+                            answers: answersToSave,
+                        });
+                        break;
+                    }
                     console.error('[Tally Webhook] ERROR inserting to Supabase:', insertError);
                     throw insertError;
                 }
@@ -169,6 +203,36 @@ export async function POST(request: NextRequest) {
 
             case 'duplicate':
                 console.log('[Tally Webhook] DUPLICATE: Submission ignored for', email);
+                await insertDuplicateAttempt({
+                    original_submission_id: validationResult.duplicate?.of ?? null,
+                    campaign_id: campaign.campaignId,
+                    email,
+                    tally_response_id: submission.responseId,
+                    reason: validationResult.duplicate?.reason ?? 'email_already_submitted',
+                    answers: answersToSave,
+                });
+                break;
+
+            case 'bot':
+            case 'rejected':
+            case 'needs_review':
+                // Stored without a code or email: bots are dropped silently, rejected emails are
+                // blocked by policy, and borderline submissions wait for an admin decision
+                console.log(`[Tally Webhook] ${validationResult.classification.toUpperCase()}: Storing submission without sending any email...`);
+                try {
+                    const insertedRecord = await insertSubmission({
+                        email,
+                        tally_response_id: submission.responseId,
+                        answers: answersToSave,
+                        classification: validationResult.classification,
+                        classification_reason: validationResult.reason,
+                        ...derivedColumns(validationResult, campaign, formVersion, respondent),
+                    });
+                    console.log(`[Tally Webhook] ${validationResult.classification} submission stored with ID:`, insertedRecord?.id);
+                } catch (insertError) {
+                    console.error(`[Tally Webhook] ERROR inserting ${validationResult.classification} submission:`, insertError);
+                    throw insertError;
+                }
                 break;
 
             case 'attention_fail':
@@ -180,16 +244,22 @@ export async function POST(request: NextRequest) {
                         answers: answersToSave,
                         classification: 'attention_fail',
                         classification_reason: validationResult.reason,
+                        ...derivedColumns(validationResult, campaign, formVersion, respondent),
                     });
                     console.log('[Tally Webhook] Attention fail submission stored with ID:', insertedRecord?.id);
 
-                    // Send abuse notification email
+                    // Send abuse notification email (queued in the outbox so failures are retried)
                     console.log('[Tally Webhook] Sending abuse email to:', email);
-                    const emailResult = await sendAbuseEmail(email);
-                    if (emailResult.success) {
+                    const submissionId = insertedRecord?.id;
+                    if (!submissionId) {
+                        throw new Error('Inserted submission has no id');
+                    }
+                    const outboxEntry = await queueAbuseEmail({ ...insertedRecord, id: submissionId }, campaign.emailTemplates.abuse);
+                    const delivery = await deliverOutboxEmail(outboxEntry);
+                    if (delivery?.success) {
                         console.log('[Tally Webhook] SUCCESS: Abuse email sent to:', email);
                     } else {
-                        console.error('[Tally Webhook] ERROR: Failed to send abuse email:', emailResult.error);
+                        console.error('[Tally Webhook] ERROR: Failed to send abuse email, queued for retry:', delivery?.error);
                     }
                 } catch (insertError) {
                     console.error('[Tally Webhook] ERROR handling attention fail:', insertError);
@@ -202,10 +272,27 @@ export async function POST(request: NextRequest) {
         console.log('[Tally Webhook] Request completed successfully');
         return NextResponse.json({
             success: true,
-            classification: validationResult.classification,
+            classification,
         });
 
     } catch (error) {
+        if (error instanceof TallyPayloadError) {
+            console.error('[Tally Webhook] ERROR: Invalid payload -', error.issues);
+            return NextResponse.json(
+                { error: 'Invalid payload', issues: error.issues },
+                { status: 400 }
+            );
+        }
+
+        // A concurrent delivery of the same response stored it first - acknowledge so Tally stops retrying
+        if (error instanceof DuplicateSubmissionError && error.conflict === 'response_id') {
+            console.log('[Tally Webhook] Response already processed:', error.message);
+            return NextResponse.json({
+                success: true,
+                message: 'Already processed',
+            });
+        }
+
         console.error('[Tally Webhook] FATAL ERROR:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -0,0 +1,78 @@
+/**
+ * Admin Session
+ *
+ * Cookie-based session for the admin dashboard. Signing in with ADMIN_API_TOKEN
+ * sets an HttpOnly cookie holding an expiry timestamp and its HMAC, so the
+ * token itself is never stored in the browser.
+ */
+
+import { createHmac } from 'crypto';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { safeCompare } from './webhook-auth';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+function getSessionSecret(): string {
+    const token = process.env.ADMIN_API_TOKEN;
+    if (!token) {
+        throw new Error('Missing ADMIN_API_TOKEN environment variable');
+    }
+    return token;
+}
+
+function sign(expiresAt: number): string {
+    return createHmac('sha256', getSessionSecret())
+        .update(`admin-session:${expiresAt}`)
+        .digest('hex');
+}
+
+function isValidSessionValue(value: string | undefined): boolean {
+    if (!value) return false;
+
+    const [expiresAtRaw, signature] = value.split('.');
+    const expiresAt = Number(expiresAtRaw);
+    if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+        return false;
+    }
+
+    return safeCompare(signature, sign(expiresAt));
+}
+
+/**
+ * Check the submitted token and start a session
+ */
+export function signIn(token: string): boolean {
+    if (!safeCompare(token, getSessionSecret())) {
+        return false;
+    }
+
+    const expiresAt = Date.now() + SESSION_TTL_SECONDS * 1000;
+    cookies().set(ADMIN_SESSION_COOKIE, `${expiresAt}.${sign(expiresAt)}`, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/admin',
+        maxAge: SESSION_TTL_SECONDS,
+    });
+
+    return true;
+}
+
+export function signOut(): void {
+    cookies().delete({ name: ADMIN_SESSION_COOKIE, path: '/admin' });
+}
+
+export function hasAdminSession(): boolean {
+    return isValidSessionValue(cookies().get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+/**
+ * Redirect to the login page unless the request carries a valid session
+ */
+export function requireAdminSession(): void {
+    if (!hasAdminSession()) {
+        redirect('/admin/login');
+    }
+}
@@ -0,0 +1,302 @@
+/**
+ * Survey Analytics
+ *
+ * Aggregates the stored `answers` JSONB per question for one form:
+ * - Choice fields (MULTIPLE_CHOICE, DROPDOWN, CHECKBOXES, ...): option distribution
+ * - LINEAR_SCALE: mean, median and histogram
+ * - Every question: answered count, and the funnel of how many respondents
+ *   reached it, with drop-off per step and per branch (path through the form).
+ *   Step drop-off is only reported for questions on every path; a branch-only
+ *   question has no meaningful previous step in a flat order.
+ *
+ * Classifications can be restricted so bot and attention-fail rows don't skew results,
+ * and results can be limited to one form version. Question titles and choice
+ * options come from the stored form versions (latest wins), so options nobody
+ * picked are listed and renamed questions are reported under their current title.
+ */
+
+import { listFormAnswers, listFormVersions, SubmissionClassification, SUBMISSION_CLASSIFICATIONS } from './supabase';
+import { readAnswers, isAnswered, isChoiceType, selectedOptionIds } from './answers';
+
+const PAGE_SIZE = 1000;
+
+// Tally metadata fields, not questions the respondent answers
+const NON_QUESTION_TYPES = new Set(['HIDDEN_FIELDS', 'CALCULATED_FIELDS']);
+
+export interface ChoiceCount {
+    option: string;
+    count: number;
+    percentage: number;
+}
+
+export interface ScaleSummary {
+    mean: number | null;
+    median: number | null;
+    histogram: { value: number; count: number }[];
+}
+
+export interface QuestionAnalytics {
+    key: string;
+    title: string;
+    type: string;
+    index: number;
+    answered: number;
+    skipped: number;
+    choices?: ChoiceCount[];
+    scale?: ScaleSummary;
+}
+
+export interface FunnelStep {
+    key: string;
+    title: string;
+    reached: number;
+    // Since the previous question on every path; absent for branch-only questions,
+    // whose drop-off is read from the branches instead
+    dropOff?: number;
+    dropOffRate?: number;
+}
+
+export interface FunnelBranch {
+    path: string[];
+    responses: number;
+    percentage: number;
+}
+
+export interface FormVersionResponses {
+    id: string;
+    firstSeenAt: string;
+    responses: number;
+}
+
+export interface FormAnalytics {
+    formId: string;
+    formVersionId: string | null;
+    classifications: SubmissionClassification[];
+    responses: number;
+    // Responses per form version (rows stored before form versions are not counted)
+    versions: FormVersionResponses[];
+    byClassification: Partial<Record<SubmissionClassification, number>>;
+    questions: QuestionAnalytics[];
+    funnel: {
+        steps: FunnelStep[];
+        branches: FunnelBranch[];
+    };
+}
+
+interface QuestionAccumulator {
+    key: string;
+    title: string;
+    type: string;
+    index: number;
+    answered: number;
+    // Counted per option id (or text, when no id was stored), labelled with the latest text
+    choices: Map<string, number>;
+    optionLabels: Map<string, string>;
+    scaleValues: number[];
+}
+
+function percentage(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+}
+
+function median(sorted: number[]): number | null {
+    if (sorted.length === 0) return null;
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function summarizeScale(values: number[]): ScaleSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const counts = new Map<number, number>();
+    for (const value of sorted) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    return {
+        mean: sorted.length > 0
+            ? Math.round((sorted.reduce((sum, v) => sum + v, 0) / sorted.length) * 100) / 100
+            : null,
+        median: median(sorted),
+        histogram: Array.from(counts, ([value, count]) => ({ value, count })),
+    };
+}
+
+/**
+ * Parse a comma-separated classification list
+ *
+ * @returns null if any entry is not a known classification
+ */
+export function parseClassifications(raw: string | null): SubmissionClassification[] | null {
+    if (!raw) return [...SUBMISSION_CLASSIFICATIONS];
+
+    const requested = raw.split(',').map(c => c.trim()).filter(Boolean);
+    if (requested.some(c => !SUBMISSION_CLASSIFICATIONS.includes(c as SubmissionClassification))) {
+        return null;
+    }
+
+    return requested as SubmissionClassification[];
+}
+
+/**
+ * Aggregate all answers for a form
+ */
+export async function getFormAnalytics(
+    formId: string,
+    classifications: SubmissionClassification[] = [...SUBMISSION_CLASSIFICATIONS],
+    formVersionId?: string
+): Promise<FormAnalytics> {
+    const questions = new Map<string, QuestionAccumulator>();
+    const byClassification: Partial<Record<SubmissionClassification, number>> = {};
+    const byVersion = new Map<string, number>();
+    const answeredKeysPerResponse: Set<string>[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const rows = await listFormAnswers(formId, classifications, { limit: PAGE_SIZE, offset }, formVersionId);
+
+        for (const row of rows) {
+            byClassification[row.classification] = (byClassification[row.classification] ?? 0) + 1;
+            if (row.form_version_id) {
+                byVersion.set(row.form_version_id, (byVersion.get(row.form_version_id) ?? 0) + 1);
+            }
+            const answeredKeys = new Set<string>();
+
+            for (const answer of readAnswers(row.answers)) {
+                if (NON_QUESTION_TYPES.has(answer.type)) continue;
+
+                let question = questions.get(answer.key);
+                if (!question) {
+                    question = {
+                        key: answer.key,
+                        title: answer.title,
+                        type: answer.type,
+                        index: answer.index,
+                        answered: 0,
+                        choices: new Map(),
+                        optionLabels: new Map(),
+                        scaleValues: [],
+                    };
+                    questions.set(answer.key, question);
+                }
+                // Forms can be edited mid-campaign; keep the earliest position seen
+                question.index = Math.min(question.index, answer.index);
+
+                if (!isAnswered(answer.value)) continue;
+                question.answered++;
+                answeredKeys.add(answer.key);
+
+                if (isChoiceType(question.type)) {
+                    const texts = (Array.isArray(answer.value) ? answer.value : [answer.value]).map(String);
+                    const ids = selectedOptionIds(answer);
+                    for (let i = 0; i < texts.length; i++) {
+                        const option = ids.length === texts.length ? ids[i] : texts[i];
+                        question.optionLabels.set(option, texts[i]);
+                        question.choices.set(option, (question.choices.get(option) ?? 0) + 1);
+                    }
+                } else if (question.type === 'LINEAR_SCALE') {
+                    const numeric = Number(answer.value);
+                    if (Number.isFinite(numeric)) question.scaleValues.push(numeric);
+                }
+            }
+
+            answeredKeysPerResponse.push(answeredKeys);
+        }
+
+        if (rows.length < PAGE_SIZE) break;
+    }
+
+    // Versions in scope, oldest first, so the latest definition of a question wins
+    const versions = (await listFormVersions(formId)).filter(v => byVersion.has(v.id));
+    for (const version of versions) {
+        for (const field of version.definition.fields) {
+            const question = questions.get(field.key);
+            if (!question) continue;
+
+            question.title = field.title;
+            if (isChoiceType(question.type)) {
+                for (const option of field.options ?? []) {
+                    question.optionLabels.set(option.id, option.text);
+                    if (!question.choices.has(option.id)) question.choices.set(option.id, 0);
+                }
+            }
+        }
+    }
+
+    const responses = answeredKeysPerResponse.length;
+    const ordered = Array.from(questions.values()).sort((a, b) => a.index - b.index);
+
+    const questionAnalytics: QuestionAnalytics[] = ordered.map(q => ({
+        key: q.key,
+        title: q.title,
+        type: q.type,
+        index: q.index,
+        answered: q.answered,
+        skipped: responses - q.answered,
+        ...(isChoiceType(q.type) && {
+            choices: Array.from(q.choices, ([option, count]) => ({
+                option: q.optionLabels.get(option) ?? option,
+                count,
+                percentage: percentage(count, q.answered),
+            })).sort((a, b) => b.count - a.count),
+        }),
+        ...(q.type === 'LINEAR_SCALE' && { scale: summarizeScale(q.scaleValues) }),
+    }));
+
+    // A question is branch-only when some other answered question was never
+    // answered together with it (e.g. the follow-ups of different choices)
+    const answeredWith = new Map<string, Set<string>>();
+    for (const answeredKeys of answeredKeysPerResponse) {
+        answeredKeys.forEach(key => {
+            const seen = answeredWith.get(key) ?? new Set<string>();
+            answeredKeys.forEach(other => seen.add(other));
+            answeredWith.set(key, seen);
+        });
+    }
+    const answeredQuestions = ordered.filter(q => q.answered > 0).map(q => q.key);
+    const branchOnly = new Set(answeredQuestions.filter(key =>
+        answeredQuestions.some(other => !answeredWith.get(key)!.has(other))
+    ));
+
+    // Drop-off chains through the questions on every path only, so a switch
+    // between branches is not reported as a drop (or hide one)
+    let previous = responses;
+    const steps: FunnelStep[] = ordered.map(q => {
+        if (branchOnly.has(q.key)) {
+            return { key: q.key, title: q.title, reached: q.answered };
+        }
+
+        const dropOff = Math.max(previous - q.answered, 0);
+        const step = {
+            key: q.key,
+            title: q.title,
+            reached: q.answered,
+            dropOff,
+            dropOffRate: percentage(dropOff, previous),
+        };
+        previous = q.answered;
+        return step;
+    });
+
+    // Conditional logic means respondents take different paths; group by the
+    // exact set of questions answered so drop-off can be read per branch
+    const branchCounts = new Map<string, number>();
+    for (const answeredKeys of answeredKeysPerResponse) {
+        const path = ordered.filter(q => answeredKeys.has(q.key)).map(q => q.key).join('\u0000');
+        branchCounts.set(path, (branchCounts.get(path) ?? 0) + 1);
+    }
+    const branches: FunnelBranch[] = Array.from(branchCounts, ([path, count]) => ({
+        path: path ? path.split('\u0000') : [],
+        responses: count,
+        percentage: percentage(count, responses),
+    })).sort((a, b) => b.responses - a.responses);
+
+    return {
+        formId,
+        formVersionId: formVersionId ?? null,
+        classifications,
+        responses,
+        versions: versions.map(v => ({ id: v.id, firstSeenAt: v.created_at, responses: byVersion.get(v.id)! })),
+        byClassification,
+        questions: questionAnalytics,
+        funnel: { steps, branches },
+    };
+}
@@ -0,0 +1,73 @@
+/**
+ * Normalized Answer Tests
+ *
+ * Normalizing the fixture Tally response, and reading both current and
+ * legacy (pre schema_version) stored answers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { normalizeAnswers, readAnswers, selectedOptionIds, toStoredAnswers, ANSWERS_SCHEMA_VERSION } from './answers';
+import { parseTallyPayload, TallyWebhookPayload } from './tally-payload';
+import tallyFormResponse from '../test/fixtures/tally-form-response.json';
+
+function fixtureFields() {
+    const result = parseTallyPayload(structuredClone(tallyFormResponse));
+    return (result as { payload: TallyWebhookPayload }).payload.data.fields;
+}
+
+describe('normalizeAnswers', () => {
+    const answers = normalizeAnswers(fixtureFields());
+
+    it('keeps every field in form order', () => {
+        expect(answers).toHaveLength(tallyFormResponse.data.fields.length);
+        expect(answers.map(a => a.index)).toEqual(answers.map((_, i) => i));
+        expect(answers.map(a => a.key)).toEqual(tallyFormResponse.data.fields.map(f => f.key));
+    });
+
+    it('resolves choices to their text and keeps the option ids as raw', () => {
+        const [first] = answers;
+        expect(first).toEqual({
+            key: 'question_K646qD',
+            index: 0,
+            title: tallyFormResponse.data.fields[0].label,
+            type: 'MULTIPLE_CHOICE',
+            value: 'I actively use AI to build or code projects',
+            raw: ['08f809a3-f845-472a-a241-d714d9a2b41b'],
+        });
+        expect(selectedOptionIds(first)).toEqual(['08f809a3-f845-472a-a241-d714d9a2b41b']);
+    });
+
+    it('stores unanswered fields as null', () => {
+        const skipped = answers.find(a => a.key === 'question_lyjyPX')!;
+        expect(skipped).toMatchObject({ value: null, raw: null });
+        expect(selectedOptionIds(skipped)).toEqual([]);
+    });
+});
+
+describe('readAnswers', () => {
+    it('reads versioned answers as stored', () => {
+        const answers = normalizeAnswers(fixtureFields());
+        const stored = toStoredAnswers(answers);
+
+        expect(stored.schema_version).toBe(ANSWERS_SCHEMA_VERSION);
+        expect(readAnswers(JSON.parse(JSON.stringify(stored)))).toEqual(answers);
+    });
+
+    it('upgrades legacy answers keyed by field key, in index order', () => {
+        const legacy = {
+            question_b: { index: 1, title: 'Scale', type: 'LINEAR_SCALE', value: 4, rawValue: 4 },
+            question_a: { index: 0, title: 'Role', type: 'MULTIPLE_CHOICE', value: 'Student', rawValue: ['opt-1'] },
+            broken: null,
+        };
+
+        expect(readAnswers(legacy)).toEqual([
+            { key: 'question_a', index: 0, title: 'Role', type: 'MULTIPLE_CHOICE', value: 'Student', raw: ['opt-1'] },
+            { key: 'question_b', index: 1, title: 'Scale', type: 'LINEAR_SCALE', value: 4, raw: 4 },
+        ]);
+    });
+
+    it('treats missing answers as empty', () => {
+        expect(readAnswers(null)).toEqual([]);
+        expect(readAnswers({})).toEqual([]);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Normalized Answers
+ *
+ * The one answer model shared by validation, storage, analytics, export and the
+ * admin pages. Each Tally field becomes a NormalizedAnswer carrying both its
+ * display value (option ids resolved to text) and the raw value Tally sent, so
+ * checks can compare option ids and reports can show text.
+ *
+ * Stored as `answers` JSONB: { schema_version, fields: NormalizedAnswer[] } in
+ * form order. Rows written before schema_version existed are keyed by field key
+ * ({ [key]: { index, title, type, value, rawValue } }); the "Normalized answers"
+ * migration in schema.sql rewrites them, and readAnswers upgrades any that are
+ * still left.
+ */
+
+import { resolveFieldValue, AnswerValue, TallyField } from './tally-payload';
+
+export const ANSWERS_SCHEMA_VERSION = 2;
+
+export interface NormalizedAnswer {
+    key: string;
+    // Position in the form as submitted
+    index: number;
+    title: string;
+    type: string;
+    // Display value (see resolveFieldValue)
+    value: AnswerValue;
+    // Value exactly as Tally sent it, e.g. option ids for choice fields
+    raw: unknown;
+}
+
+export interface StoredAnswers {
+    schema_version: typeof ANSWERS_SCHEMA_VERSION;
+    fields: NormalizedAnswer[];
+}
+
+// Answers stored before schema_version, keyed by field key
+interface LegacyAnswer {
+    index?: number;
+    title?: string;
+    type?: string;
+    value?: unknown;
+    rawValue?: unknown;
+}
+
+// Fields whose value is a selection of options
+const CHOICE_TYPES = new Set(['MULTIPLE_CHOICE', 'DROPDOWN', 'CHECKBOXES', 'MULTI_SELECT', 'RANKING']);
+
+export function isChoiceType(type: string): boolean {
+    return CHOICE_TYPES.has(type);
+}
+
+export function isAnswered(value: unknown): boolean {
+    if (value === null || value === undefined || value === '') return false;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+}
+
+/**
+ * Normalize validated Tally fields, in form order
+ */
+export function normalizeAnswers(fields: TallyField[]): NormalizedAnswer[] {
+    return fields.map((field, index) => ({
+        key: field.key,
+        index,
+        title: field.label,
+        type: field.type,
+        value: resolveFieldValue(field),
+        raw: field.value ?? null,
+    }));
+}
+
+export function toStoredAnswers(answers: NormalizedAnswer[]): StoredAnswers {
+    return { schema_version: ANSWERS_SCHEMA_VERSION, fields: answers };
+}
+
+function upgradeLegacyAnswers(legacy: Record<string, LegacyAnswer | null>): NormalizedAnswer[] {
+    return Object.entries(legacy)
+        .filter((entry): entry is [string, LegacyAnswer] => typeof entry[1] === 'object' && entry[1] !== null)
+        .map(([key, answer], position) => ({
+            key,
+            index: answer.index ?? position,
+            title: answer.title ?? key,
+            type: answer.type ?? 'UNKNOWN',
+            value: (answer.value ?? null) as AnswerValue,
+            raw: answer.rawValue ?? answer.value ?? null,
+        }))
+        .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Answers of a stored submission (or duplicate attempt) in form order
+ */
+export function readAnswers(stored: StoredAnswers | Record<string, unknown> | null | undefined): NormalizedAnswer[] {
+    if (!stored) return [];
+    if (stored.schema_version === ANSWERS_SCHEMA_VERSION) {
+        return (stored as StoredAnswers).fields;
+    }
+    return upgradeLegacyAnswers(stored as Record<string, LegacyAnswer | null>);
+}
+
+/**
+ * Selected option ids of a choice answer, in the order the respondent gave them
+ */
+export function selectedOptionIds(answer: NormalizedAnswer): string[] {
+    return isChoiceType(answer.type) && Array.isArray(answer.raw) ? answer.raw.map(id => String(id)) : [];
+}
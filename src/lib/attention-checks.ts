@@ -0,0 +1,183 @@
+/**
+ * Attention Checks
+ *
+ * Evaluates decoy questions defined as data in src/config/attention-checks.json
+ * instead of hardcoded option UUIDs, so editing or cloning a Tally form only
+ * needs a config change.
+ *
+ * Each check matches one or more fields (by key or label substring) and lists the
+ * expected option texts and/or ids. A check that appears in several branches only
+ * counts the branch the respondent actually answered. The submission passes when
+ * at least `requiredPasses` checks pass.
+ *
+ * Rules are also checked against each new form version (see form-versions.ts),
+ * so an edited question or option is reported before respondents start failing.
+ */
+
+import attentionCheckConfig from '../config/attention-checks.json';
+import { selectedOptionIds, NormalizedAnswer } from './answers';
+
+export interface AttentionCheckRule {
+    id: string;
+    key?: string;
+    labelIncludes?: string;
+    expectedOptionTexts?: string[];
+    expectedOptionIds?: string[];
+}
+
+export interface FormAttentionConfig {
+    requiredPasses: number;
+    checks: AttentionCheckRule[];
+}
+
+export type AttentionCheckStatus = 'passed' | 'failed' | 'unanswered';
+
+export interface AttentionCheckOutcome {
+    check: string;
+    status: AttentionCheckStatus;
+    fieldKey?: string;
+    answer?: string[];
+}
+
+/**
+ * A rule that can no longer pass against a form definition: its question is
+ * gone, or none of its expected options are offered any more
+ */
+export interface AttentionRuleIssue {
+    check: string;
+    problem: 'field_missing' | 'options_missing';
+    message: string;
+}
+
+/**
+ * A question as defined in the form (see form-versions.ts)
+ */
+export interface AttentionRuleField {
+    key: string;
+    title: string;
+    options?: { id: string; text: string }[];
+}
+
+export interface AttentionEvaluation {
+    passed: boolean;
+    passCount: number;
+    requiredPasses: number;
+    outcomes: AttentionCheckOutcome[];
+}
+
+interface AttentionCheckConfigFile {
+    default: FormAttentionConfig;
+    forms: Record<string, FormAttentionConfig>;
+}
+
+const config = attentionCheckConfig as AttentionCheckConfigFile;
+
+/**
+ * Attention check config for a Tally form, falling back to the default rules
+ */
+export function getAttentionConfig(formId?: string): FormAttentionConfig {
+    return (formId && config.forms[formId]) || config.default;
+}
+
+function matchesRule(answer: Pick<NormalizedAnswer, 'key' | 'title'>, rule: AttentionCheckRule): boolean {
+    if (rule.key && answer.key === rule.key) {
+        return true;
+    }
+
+    return !!rule.labelIncludes &&
+        !!answer.title &&
+        answer.title.toLowerCase().includes(rule.labelIncludes.toLowerCase());
+}
+
+function toStringList(value: unknown): string[] {
+    if (value === null || value === undefined) return [];
+    if (Array.isArray(value)) return value.map(v => String(v));
+    return [String(value)];
+}
+
+function evaluateRule(answers: NormalizedAnswer[], rule: AttentionCheckRule): AttentionCheckOutcome {
+    // Same question may exist once per branch - only the answered one counts
+    const answered = answers.find(
+        a => matchesRule(a, rule) && a.value !== null
+    );
+
+    if (!answered) {
+        return { check: rule.id, status: 'unanswered' };
+    }
+
+    const answerTexts = toStringList(answered.value);
+    const answerIds = selectedOptionIds(answered);
+    const expectedTexts = (rule.expectedOptionTexts || []).map(t => t.trim().toLowerCase());
+
+    const passed = answerTexts.some(text => expectedTexts.includes(text.trim().toLowerCase())) ||
+        answerIds.some(id => (rule.expectedOptionIds || []).includes(id));
+
+    return {
+        check: rule.id,
+        status: passed ? 'passed' : 'failed',
+        fieldKey: answered.key,
+        answer: answerTexts,
+    };
+}
+
+/**
+ * Evaluate all attention checks configured for a form
+ */
+export function evaluateAttentionChecks(
+    answers: NormalizedAnswer[],
+    formConfig: FormAttentionConfig
+): AttentionEvaluation {
+    const outcomes = formConfig.checks.map(rule => evaluateRule(answers, rule));
+    const passCount = outcomes.filter(o => o.status === 'passed').length;
+
+    if (outcomes.every(o => o.status === 'unanswered')) {
+        console.warn('[Validation] No answered attention check field found');
+    }
+
+    return {
+        passed: passCount >= formConfig.requiredPasses,
+        passCount,
+        requiredPasses: formConfig.requiredPasses,
+        outcomes,
+    };
+}
+
+function describeRule(rule: AttentionCheckRule): string {
+    return rule.key ? `key ${rule.key}` : `label containing "${rule.labelIncludes}"`;
+}
+
+/**
+ * Check that every rule still matches a question offering one of its expected
+ * options, so form edits that would fail every respondent are caught early
+ */
+export function checkAttentionRules(
+    fields: AttentionRuleField[],
+    formConfig: FormAttentionConfig
+): AttentionRuleIssue[] {
+    const issues: AttentionRuleIssue[] = [];
+
+    for (const rule of formConfig.checks) {
+        const matched = fields.filter(f => matchesRule(f, rule));
+        if (matched.length === 0) {
+            issues.push({ check: rule.id, problem: 'field_missing', message: `No question matches ${describeRule(rule)}` });
+            continue;
+        }
+
+        const expectedIds = rule.expectedOptionIds || [];
+        const expectedTexts = (rule.expectedOptionTexts || []).map(t => t.trim().toLowerCase());
+        if (expectedIds.length === 0 && expectedTexts.length === 0) continue;
+
+        const offered = matched.some(f => (f.options || []).some(option =>
+            expectedIds.includes(option.id) || expectedTexts.includes(option.text.trim().toLowerCase())
+        ));
+        if (!offered) {
+            issues.push({
+                check: rule.id,
+                problem: 'options_missing',
+                message: `No question matching ${describeRule(rule)} offers an expected option`,
+            });
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,195 @@
+/**
+ * Bot Detection
+ *
+ * Scores a submission with a set of pluggable heuristics. Each heuristic that
+ * fires contributes a score and a human-readable reason; a submission whose
+ * total score reaches BOT_SCORE_THRESHOLD is classified as a bot.
+ *
+ * Default heuristics:
+ * - Too-fast completion (needs the started_at hidden field)
+ * - Straight-lining on LINEAR_SCALE answers
+ * - Answer fingerprint identical to another respondent's
+ * - Disposable email domain
+ */
+
+import { createHash } from 'crypto';
+import { countSubmissionsWithFingerprint, BotSignal } from './supabase';
+import { isDisposableEmail, getDisposableEmailPolicy } from './disposable-domains';
+import { isAnswered } from './answers';
+import type { TallySubmission } from './validation';
+
+export const BOT_SCORE_THRESHOLD = 1.0;
+
+// Hidden field populated by the form embed with the time the respondent opened the survey
+const STARTED_AT_FIELD_KEY = 'started_at';
+const MIN_SECONDS_PER_ANSWER = 2;
+
+// Minimum number of LINEAR_SCALE answers before straight-lining is meaningful
+const MIN_SCALE_ANSWERS_FOR_STRAIGHT_LINING = 4;
+
+export interface HeuristicContext {
+    submission: TallySubmission;
+    email: string | null;
+    submissionTimeSeconds: number | null;
+    fingerprint: string;
+}
+
+export type HeuristicSignal = BotSignal;
+
+export interface BotHeuristic {
+    name: string;
+    evaluate(context: HeuristicContext): Promise<HeuristicSignal | null> | HeuristicSignal | null;
+}
+
+export interface BotAssessment {
+    isBot: boolean;
+    score: number;
+    signals: HeuristicSignal[];
+    submissionTimeSeconds: number | null;
+    fingerprint: string;
+}
+
+/**
+ * Seconds between the started_at hidden field and Tally's submission time,
+ * or null if the form did not supply a start time
+ */
+export function computeSubmissionTimeSeconds(submission: TallySubmission): number | null {
+    const startedField = submission.answers.find(
+        a => a.key === STARTED_AT_FIELD_KEY || a.title === STARTED_AT_FIELD_KEY
+    );
+    if (!startedField || !isAnswered(startedField.value)) {
+        return null;
+    }
+
+    const raw = String(startedField.value);
+    const startedAt = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    const submittedAt = Date.parse(submission.createdAt);
+
+    if (Number.isNaN(startedAt) || Number.isNaN(submittedAt) || submittedAt < startedAt) {
+        return null;
+    }
+
+    return Math.round((submittedAt - startedAt) / 1000);
+}
+
+/**
+ * Stable hash of the respondent's answers, excluding identifying and hidden fields
+ */
+export function computeAnswerFingerprint(submission: TallySubmission): string {
+    // Hashes the raw values (option ids) so fingerprints stay comparable when option texts are edited
+    const answers = submission.answers
+        .filter(a => a.type !== 'INPUT_EMAIL' && a.type !== 'HIDDEN_FIELDS' && isAnswered(a.raw))
+        .map(a => [a.key, a.raw] as const)
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    return createHash('sha256').update(JSON.stringify(answers)).digest('hex');
+}
+
+const tooFastCompletion: BotHeuristic = {
+    name: 'too_fast_completion',
+    evaluate({ submission, submissionTimeSeconds }) {
+        if (submissionTimeSeconds === null) return null;
+
+        const answeredCount = submission.answers.filter(
+            a => a.type !== 'HIDDEN_FIELDS' && isAnswered(a.value)
+        ).length;
+        const minimumSeconds = answeredCount * MIN_SECONDS_PER_ANSWER;
+
+        if (submissionTimeSeconds >= minimumSeconds) return null;
+
+        // Under half the minimum is almost certainly automated
+        const score = submissionTimeSeconds < minimumSeconds / 2 ? 1.0 : 0.6;
+        return {
+            heuristic: 'too_fast_completion',
+            score,
+            reason: `Completed ${answeredCount} answers in ${submissionTimeSeconds}s (minimum ${minimumSeconds}s)`,
+        };
+    },
+};
+
+const straightLining: BotHeuristic = {
+    name: 'straight_lining',
+    evaluate({ submission }) {
+        const scaleValues = submission.answers
+            .filter(a => a.type === 'LINEAR_SCALE' && isAnswered(a.value))
+            .map(a => String(a.value));
+
+        if (scaleValues.length < MIN_SCALE_ANSWERS_FOR_STRAIGHT_LINING) return null;
+        if (new Set(scaleValues).size > 1) return null;
+
+        return {
+            heuristic: 'straight_lining',
+            score: 0.4,
+            reason: `All ${scaleValues.length} linear scale answers are ${scaleValues[0]}`,
+        };
+    },
+};
+
+const identicalFingerprint: BotHeuristic = {
+    name: 'identical_fingerprint',
+    async evaluate({ fingerprint }) {
+        const matches = await countSubmissionsWithFingerprint(fingerprint);
+        if (matches === 0) return null;
+
+        return {
+            heuristic: 'identical_fingerprint',
+            score: 0.6,
+            reason: `Answers identical to ${matches} earlier submission(s)`,
+        };
+    },
+};
+
+const disposableEmail: BotHeuristic = {
+    name: 'disposable_email',
+    evaluate({ email }) {
+        if (!email || !isDisposableEmail(email)) return null;
+        if (getDisposableEmailPolicy() === 'allow') return null;
+
+        return {
+            heuristic: 'disposable_email',
+            score: 0.6,
+            reason: `Disposable email domain: ${email.split('@').pop()}`,
+        };
+    },
+};
+
+export const defaultHeuristics: BotHeuristic[] = [
+    tooFastCompletion,
+    straightLining,
+    identicalFingerprint,
+    disposableEmail,
+];
+
+/**
+ * Run all heuristics against a submission and combine their scores
+ */
+export async function assessBotLikelihood(
+    submission: TallySubmission,
+    email: string | null,
+    heuristics: BotHeuristic[] = defaultHeuristics
+): Promise<BotAssessment> {
+    const context: HeuristicContext = {
+        submission,
+        email,
+        submissionTimeSeconds: computeSubmissionTimeSeconds(submission),
+        fingerprint: computeAnswerFingerprint(submission),
+    };
+
+    const signals: HeuristicSignal[] = [];
+    for (const heuristic of heuristics) {
+        const signal = await heuristic.evaluate(context);
+        if (signal) {
+            signals.push(signal);
+        }
+    }
+
+    const score = Math.round(signals.reduce((sum, s) => sum + s.score, 0) * 100) / 100;
+
+    return {
+        isBot: score >= BOT_SCORE_THRESHOLD,
+        score,
+        signals,
+        submissionTimeSeconds: context.submissionTimeSeconds,
+        fingerprint: context.fingerprint,
+    };
+}
@@ -0,0 +1,191 @@
+/**
+ * Campaigns
+ *
+ * Each Tally form (keyed by formId) belongs to a campaign stored in the
+ * campaigns table. A campaign carries its own settings:
+ * - Attention check rules (falls back to src/config/attention-checks.json)
+ * - Reward provider and its settings (defaults to a Stripe promotion code on STRIPE_COUPON_ID)
+ * - Reward, abuse and reminder email templates
+ * - Reminder timing for unredeemed promotion codes
+ * - Email locale and the survey fields the respondent's locale and name come from
+ * - Open/close dates outside which submissions are not processed
+ *
+ * Forms without a campaign row run with the default settings, so a new survey
+ * keeps working before its campaign is configured.
+ */
+
+import { getCampaignByFormId, getCampaignById } from './supabase';
+import { getAttentionConfig, FormAttentionConfig } from './attention-checks';
+import { DEFAULT_TEMPLATE } from './emails/templates';
+import { DEFAULT_LOCALE, Locale, resolveLocale } from './emails/i18n';
+import type { PromoCodeFormat } from './promo-codes';
+
+/**
+ * Reward issued for a valid submission (see src/lib/reward-providers)
+ */
+export type RewardSettings =
+    | {
+        type: 'stripe_promotion_code';
+        couponId?: string;
+        codeFormat?: Partial<PromoCodeFormat>;
+        // Days the code stays valid, counted from the survey submission
+        expiresInDays?: number;
+        firstTimeTransaction?: boolean;
+        // Minimum order amount in the currency's minor unit (e.g. cents)
+        minimumAmount?: number;
+        minimumAmountCurrency?: string;
+    }
+    | { type: 'stripe_customer_credit'; amount: number; currency: string; createMissingCustomer?: boolean }
+    | { type: 'code_pool'; pool: string }
+    | { type: 'raffle'; raffle: string; prize?: string; drawDate?: string };
+
+export type RewardType = RewardSettings['type'];
+
+/**
+ * Reminders for unredeemed promotion codes: the first goes out afterDays after
+ * the reward email, then every intervalDays, up to maxReminders (0 disables)
+ */
+export interface ReminderSettings {
+    afterDays: number;
+    intervalDays: number;
+    maxReminders: number;
+}
+
+const DEFAULT_REMINDERS: ReminderSettings = {
+    afterDays: 7,
+    intervalDays: 7,
+    maxReminders: 2,
+};
+
+/**
+ * Survey fields the respondent's locale and name are read from, matched by
+ * Tally field key or label (hidden fields are labelled with their URL parameter)
+ */
+export interface RespondentFieldSettings {
+    locale: string[];
+    name: string[];
+}
+
+const DEFAULT_RESPONDENT_FIELDS: RespondentFieldSettings = {
+    locale: ['locale', 'lang', 'language'],
+    name: ['name', 'first_name', 'firstname'],
+};
+
+export interface CampaignSettings {
+    attentionChecks?: FormAttentionConfig;
+    reward?: RewardSettings;
+    reminders?: Partial<ReminderSettings>;
+    // Email locale for respondents whose answers don't name a supported one
+    defaultLocale?: string;
+    respondentFields?: Partial<RespondentFieldSettings>;
+    emailTemplates?: {
+        reward?: string;
+        abuse?: string;
+        reminder?: string;
+    };
+}
+
+export interface Campaign {
+    id: string;
+    slug: string;
+    name: string;
+    form_id: string;
+    settings: CampaignSettings;
+    opens_at?: string | null;
+    closes_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+/**
+ * Settings with all defaults applied
+ */
+export interface ResolvedCampaign {
+    campaignId: string | null;
+    formId: string;
+    name: string;
+    attentionChecks: FormAttentionConfig;
+    reward: RewardSettings;
+    reminders: ReminderSettings;
+    defaultLocale: Locale;
+    respondentFields: RespondentFieldSettings;
+    emailTemplates: {
+        reward: string;
+        abuse: string;
+        reminder: string;
+    };
+    opensAt: Date | null;
+    closesAt: Date | null;
+}
+
+// Campaigns change rarely; cache lookups for the lifetime of a warm function instance
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<string, { campaign: ResolvedCampaign; expiresAt: number }>();
+
+function resolveSettings(formId: string, campaign: Campaign | null): ResolvedCampaign {
+    const settings = campaign?.settings || {};
+
+    return {
+        campaignId: campaign?.id ?? null,
+        formId,
+        name: campaign?.name ?? formId,
+        attentionChecks: settings.attentionChecks ?? getAttentionConfig(formId),
+        reward: settings.reward ?? { type: 'stripe_promotion_code' },
+        reminders: { ...DEFAULT_REMINDERS, ...settings.reminders },
+        defaultLocale: resolveLocale(settings.defaultLocale) ?? DEFAULT_LOCALE,
+        respondentFields: { ...DEFAULT_RESPONDENT_FIELDS, ...settings.respondentFields },
+        emailTemplates: {
+            reward: settings.emailTemplates?.reward ?? DEFAULT_TEMPLATE,
+            abuse: settings.emailTemplates?.abuse ?? DEFAULT_TEMPLATE,
+            reminder: settings.emailTemplates?.reminder ?? DEFAULT_TEMPLATE,
+        },
+        opensAt: campaign?.opens_at ? new Date(campaign.opens_at) : null,
+        closesAt: campaign?.closes_at ? new Date(campaign.closes_at) : null,
+    };
+}
+
+/**
+ * Resolve the campaign settings for a Tally form
+ */
+export async function resolveCampaignForForm(formId: string): Promise<ResolvedCampaign> {
+    const cached = cache.get(formId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.campaign;
+    }
+
+    const campaign = resolveSettings(formId, await getCampaignByFormId(formId));
+    if (!campaign.campaignId) {
+        console.warn(`[Campaigns] No campaign configured for form ${formId}, using defaults`);
+    }
+
+    cache.set(formId, { campaign, expiresAt: Date.now() + CACHE_TTL_MS });
+    return campaign;
+}
+
+/**
+ * Resolve the campaign settings a stored submission was collected under
+ */
+export async function resolveCampaignForSubmission(submission: {
+    campaign_id?: string | null;
+    form_id?: string | null;
+}): Promise<ResolvedCampaign> {
+    if (submission.campaign_id) {
+        const campaign = await getCampaignById(submission.campaign_id);
+        if (campaign) {
+            return resolveSettings(campaign.form_id, campaign);
+        }
+    }
+
+    return submission.form_id
+        ? resolveCampaignForForm(submission.form_id)
+        : resolveSettings('', null);
+}
+
+/**
+ * Whether the campaign accepts submissions at the given time
+ */
+export function isCampaignOpen(campaign: ResolvedCampaign, at: Date = new Date()): boolean {
+    if (campaign.opensAt && at < campaign.opensAt) return false;
+    if (campaign.closesAt && at > campaign.closesAt) return false;
+    return true;
+}
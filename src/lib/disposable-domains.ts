@@ -0,0 +1,52 @@
+/**
+ * Disposable Email Domains
+ *
+ * Throwaway mailbox providers commonly used to farm rewards.
+ * The bundled list lives in src/config/disposable-domains.json and can be
+ * extended without a code change via DISPOSABLE_DOMAINS_EXTRA (comma-separated).
+ *
+ * DISPOSABLE_EMAIL_POLICY decides what happens to a matching submission:
+ * - reject: stored as rejected, no code and no email
+ * - review: processed normally but flagged on the submission
+ * - allow: ignored entirely
+ */
+
+import disposableDomainList from '../config/disposable-domains.json';
+import { getEmailDomain } from './email-normalization';
+
+export type DisposableEmailPolicy = 'reject' | 'review' | 'allow';
+
+const DEFAULT_POLICY: DisposableEmailPolicy = 'review';
+
+let _domains: Set<string> | null = null;
+
+function getDisposableDomains(): Set<string> {
+    if (_domains) return _domains;
+
+    const extra = (process.env.DISPOSABLE_DOMAINS_EXTRA || '')
+        .split(',')
+        .map(d => d.trim().toLowerCase())
+        .filter(Boolean);
+
+    _domains = new Set([...disposableDomainList.domains, ...extra]);
+    return _domains;
+}
+
+export function getDisposableEmailPolicy(): DisposableEmailPolicy {
+    const policy = process.env.DISPOSABLE_EMAIL_POLICY;
+    if (policy === 'reject' || policy === 'review' || policy === 'allow') {
+        return policy;
+    }
+    if (policy) {
+        console.warn(`[Disposable Domains] Unknown DISPOSABLE_EMAIL_POLICY "${policy}", using "${DEFAULT_POLICY}"`);
+    }
+    return DEFAULT_POLICY;
+}
+
+/**
+ * Check whether an email address uses a known disposable domain
+ */
+export function isDisposableEmail(email: string): boolean {
+    const domain = getEmailDomain(email);
+    return !!domain && getDisposableDomains().has(domain);
+}
@@ -0,0 +1,125 @@
+/**
+ * Email Delivery Events
+ *
+ * Records Mailgun delivery events (see /api/webhook/mailgun) against the outbox
+ * entry and submission they belong to, matched by message id:
+ * - delivered / opened: delivery status on the entry and submission
+ * - failed (temporary): logged; Mailgun keeps retrying the delivery
+ * - failed (permanent), i.e. a hard bounce: address suppressed and the
+ *   submission flagged for an admin to resend to a corrected address
+ * - complained: address suppressed
+ *
+ * Suppressed addresses are never emailed again (the outbox cancels their entries).
+ */
+
+import {
+    findOutboxEmailByMessageId,
+    updateOutboxDeliveryStatus,
+    updateSubmissionDeliveryStatus,
+    insertEmailEvent,
+    addEmailSuppression,
+    EmailDeliveryStatus,
+} from './supabase';
+
+/**
+ * The `event-data` object of a Mailgun webhook
+ */
+export interface MailgunEventData {
+    id: string;
+    event: string;
+    timestamp: number;
+    recipient?: string;
+    severity?: 'permanent' | 'temporary';
+    reason?: string;
+    'delivery-status'?: {
+        code?: number;
+        message?: string;
+        description?: string;
+    };
+    message?: {
+        headers?: {
+            'message-id'?: string;
+        };
+    };
+}
+
+export type EmailEventOutcome = 'recorded' | 'unmatched' | 'duplicate' | 'ignored';
+
+function deliveryStatusFor(eventData: MailgunEventData): EmailDeliveryStatus | null {
+    switch (eventData.event) {
+        case 'delivered':
+        case 'opened':
+        case 'complained':
+            return eventData.event;
+        case 'failed':
+            return eventData.severity === 'permanent' ? 'bounced' : 'failed';
+        default:
+            // accepted, clicked, unsubscribed, ... are not tracked
+            return null;
+    }
+}
+
+function failureDetail(eventData: MailgunEventData): string | null {
+    const status = eventData['delivery-status'];
+    const parts = [
+        eventData.reason,
+        status?.code ? String(status.code) : undefined,
+        status?.description || status?.message,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(' - ') : null;
+}
+
+/**
+ * Apply one delivery event. Safe to repeat: statuses only move forward and
+ * suppressions are kept once added, and the event itself is logged last, so a
+ * failure part-way is retried by Mailgun in full.
+ */
+export async function recordMailgunEvent(eventData: MailgunEventData): Promise<EmailEventOutcome> {
+    const status = deliveryStatusFor(eventData);
+    if (!status) {
+        return 'ignored';
+    }
+
+    const messageId = eventData.message?.headers?.['message-id'] ?? null;
+    const entry = messageId ? await findOutboxEmailByMessageId(messageId) : null;
+    const detail = status === 'failed' || status === 'bounced' || status === 'complained'
+        ? failureDetail(eventData)
+        : null;
+
+    if (entry && messageId) {
+        await updateOutboxDeliveryStatus(entry.id, status);
+        if (entry.submission_id) {
+            await updateSubmissionDeliveryStatus(entry.submission_id, messageId, status, detail);
+        }
+    }
+
+    if (eventData.recipient && (status === 'bounced' || status === 'complained')) {
+        await addEmailSuppression(eventData.recipient, status, detail);
+
+        if (status === 'bounced') {
+            console.error(
+                `[Email Events] ALERT: Hard bounce for ${entry?.email_type ?? 'unknown'} email to ${eventData.recipient}`,
+                entry?.submission_id ? `(submission ${entry.submission_id})` : '(no matching outbox entry)',
+                '-', detail
+            );
+        } else {
+            console.warn(`[Email Events] Spam complaint from ${eventData.recipient}, address suppressed`);
+        }
+    }
+
+    const inserted = await insertEmailEvent({
+        provider_event_id: eventData.id,
+        message_id: messageId,
+        outbox_id: entry?.id ?? null,
+        submission_id: entry?.submission_id ?? null,
+        event: status,
+        recipient: eventData.recipient ?? null,
+        detail,
+        occurred_at: new Date(eventData.timestamp * 1000).toISOString(),
+        payload: eventData as unknown as Record<string, unknown>,
+    });
+
+    if (!inserted) return 'duplicate';
+    return entry ? 'recorded' : 'unmatched';
+}
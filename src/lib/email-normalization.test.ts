@@ -0,0 +1,47 @@
+/**
+ * Email Normalization Tests
+ *
+ * One case per provider rule. canonicalize_email() in supabase/schema.sql
+ * must give the same results.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { canonicalizeEmail, isAliasedEmail } from './email-normalization';
+
+describe('canonicalizeEmail', () => {
+    it.each([
+        ['lowercases and trims', '  Someone@Example.COM ', 'someone@example.com'],
+        ['strips plus-tags', 'someone+rewards@example.com', 'someone@example.com'],
+        ['keeps a leading plus', '+someone@example.com', '+someone@example.com'],
+        ['keeps dots outside Gmail', 'first.last@example.com', 'first.last@example.com'],
+        ['splits at the last @', '"a@b"+tag@example.com', '"a@b"@example.com'],
+        ['leaves strings without an @ alone', ' Not-An-Email ', 'not-an-email'],
+    ])('%s', (_, email, canonical) => {
+        expect(canonicalizeEmail(email)).toBe(canonical);
+    });
+
+    it.each([
+        ['gmail.com', 'First.Last+tag@gmail.com', 'firstlast@gmail.com'],
+        ['googlemail.com', 'first.last@googlemail.com', 'firstlast@gmail.com'],
+        ['icloud.com', 'first.last+tag@icloud.com', 'first.last@icloud.com'],
+        ['me.com', 'someone@me.com', 'someone@icloud.com'],
+        ['mac.com', 'someone+tag@mac.com', 'someone@icloud.com'],
+        ['proton.me', 'someone+tag@proton.me', 'someone@proton.me'],
+        ['protonmail.com', 'someone@protonmail.com', 'someone@proton.me'],
+        ['protonmail.ch', 'someone@protonmail.ch', 'someone@proton.me'],
+        ['pm.me', 'someone+tag@pm.me', 'someone@proton.me'],
+        ['yahoo.com', 'someone-shopping@yahoo.com', 'someone@yahoo.com'],
+        ['yahoo.com keeps plus', 'someone+tag@yahoo.com', 'someone+tag@yahoo.com'],
+        ['ymail.com', 'first.last-keyword@ymail.com', 'first.last@ymail.com'],
+    ])('applies the %s rule', (_, email, canonical) => {
+        expect(canonicalizeEmail(email)).toBe(canonical);
+    });
+});
+
+describe('isAliasedEmail', () => {
+    it('flags addresses that differ from their canonical form', () => {
+        expect(isAliasedEmail('someone+tag@example.com')).toBe(true);
+        expect(isAliasedEmail('someone@me.com')).toBe(true);
+        expect(isAliasedEmail(' Someone@Example.com ')).toBe(false);
+    });
+});
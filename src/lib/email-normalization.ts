@@ -0,0 +1,77 @@
+/**
+ * Email Normalization
+ *
+ * Reduces an address to a canonical form so aliases of the same mailbox
+ * count as one respondent:
+ * - Lowercases and trims
+ * - Strips plus-tags (name+anything@ -> name@)
+ * - Removes dots in Gmail local parts and folds googlemail.com into gmail.com
+ * - Folds provider domain aliases (e.g. me.com / mac.com -> icloud.com)
+ * - Strips Yahoo disposable-address keywords (base-keyword@ -> base@)
+ *
+ * canonicalize_email() in supabase/schema.sql applies the same rules to
+ * backfill existing rows; change both together.
+ */
+
+interface ProviderRule {
+    canonicalDomain: string;
+    removeDots?: boolean;
+    subaddressSeparator?: string;
+}
+
+const DEFAULT_SUBADDRESS_SEPARATOR = '+';
+
+const PROVIDERS: Record<string, ProviderRule> = {
+    'gmail.com': { canonicalDomain: 'gmail.com', removeDots: true },
+    'googlemail.com': { canonicalDomain: 'gmail.com', removeDots: true },
+    'icloud.com': { canonicalDomain: 'icloud.com' },
+    'me.com': { canonicalDomain: 'icloud.com' },
+    'mac.com': { canonicalDomain: 'icloud.com' },
+    'proton.me': { canonicalDomain: 'proton.me' },
+    'protonmail.com': { canonicalDomain: 'proton.me' },
+    'protonmail.ch': { canonicalDomain: 'proton.me' },
+    'pm.me': { canonicalDomain: 'proton.me' },
+    'yahoo.com': { canonicalDomain: 'yahoo.com', subaddressSeparator: '-' },
+    'ymail.com': { canonicalDomain: 'ymail.com', subaddressSeparator: '-' },
+};
+
+/**
+ * Domain part of an email address, lowercased
+ */
+export function getEmailDomain(email: string): string | null {
+    const at = email.lastIndexOf('@');
+    if (at < 0) return null;
+    return email.slice(at + 1).trim().toLowerCase() || null;
+}
+
+/**
+ * Canonical form of an email address, used for duplicate detection
+ */
+export function canonicalizeEmail(email: string): string {
+    const normalized = email.trim().toLowerCase();
+    const at = normalized.lastIndexOf('@');
+    if (at < 0) return normalized;
+
+    let local = normalized.slice(0, at);
+    const domain = normalized.slice(at + 1);
+    const provider = PROVIDERS[domain];
+
+    const separator = provider?.subaddressSeparator ?? DEFAULT_SUBADDRESS_SEPARATOR;
+    const separatorIndex = local.indexOf(separator);
+    if (separatorIndex > 0) {
+        local = local.slice(0, separatorIndex);
+    }
+
+    if (provider?.removeDots) {
+        local = local.replace(/\./g, '');
+    }
+
+    return `${local}@${provider?.canonicalDomain ?? domain}`;
+}
+
+/**
+ * Whether the address differs from its canonical form (plus-tag, dots, domain alias)
+ */
+export function isAliasedEmail(email: string): boolean {
+    return canonicalizeEmail(email) !== email.trim().toLowerCase();
+}
@@ -0,0 +1,43 @@
+/**
+ * File Transport
+ *
+ * Development sink: writes every email as an .eml file (open it in any mail
+ * client) to EMAIL_FILE_DIR, default .emails/, and logs where it went.
+ * Nothing leaves the machine.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { EmailTransport } from './types';
+
+const DEFAULT_EMAIL_FILE_DIR = '.emails';
+
+// Builds the raw MIME message without sending it
+const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+function getEmailFileDir(): string {
+    return path.resolve(process.env.EMAIL_FILE_DIR || DEFAULT_EMAIL_FILE_DIR);
+}
+
+function fileName(to: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = to.toLowerCase().replace(/[^a-z0-9@.-]+/g, '_');
+    return `${timestamp}-${recipient}.eml`;
+}
+
+export const fileTransport: EmailTransport = {
+    name: 'file',
+
+    async send(email) {
+        const info = await composer.sendMail(email);
+
+        const dir = getEmailFileDir();
+        const file = path.join(dir, fileName(email.to));
+        await mkdir(dir, { recursive: true });
+        await writeFile(file, info.message as Buffer);
+
+        console.log(`[Email File] "${email.subject}" to ${email.to} written to ${file}`);
+        return info.messageId;
+    },
+};
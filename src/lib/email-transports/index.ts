@@ -0,0 +1,37 @@
+/**
+ * Email Transport Registry
+ *
+ * Picks the transport every email is sent with from EMAIL_TRANSPORT:
+ * - mailgun: Mailgun API (default)
+ * - smtp: any SMTP server (SMTP_URL)
+ * - file: .eml files on disk, for local development
+ *
+ * The file transport never delivers anything, so it is refused in production.
+ */
+
+import { EmailTransport, EmailTransportName } from './types';
+import { mailgunTransport } from './mailgun';
+import { smtpTransport } from './smtp';
+import { fileTransport } from './file';
+
+export type { EmailTransport, EmailTransportName, OutgoingEmail } from './types';
+
+const transports: Record<EmailTransportName, EmailTransport> = {
+    mailgun: mailgunTransport,
+    smtp: smtpTransport,
+    file: fileTransport,
+};
+
+export function getEmailTransport(): EmailTransport {
+    const name = process.env.EMAIL_TRANSPORT || 'mailgun';
+    const transport = transports[name as EmailTransportName] as EmailTransport | undefined;
+    if (!transport) {
+        throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+    }
+
+    if (transport.name === 'file' && process.env.NODE_ENV === 'production') {
+        throw new Error('EMAIL_TRANSPORT=file is not allowed in production');
+    }
+
+    return transport;
+}
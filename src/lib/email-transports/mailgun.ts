@@ -0,0 +1,58 @@
+/**
+ * Mailgun Transport
+ *
+ * Sends through the Mailgun API (MAILGUN_API_KEY, MAILGUN_DOMAIN). Delivery
+ * events for the returned message ids arrive at /api/webhook/mailgun.
+ */
+
+import Mailgun from 'mailgun.js';
+import FormData from 'form-data';
+import type { EmailTransport } from './types';
+
+// Lazy initialization to avoid build-time errors
+let _mailgunClient: ReturnType<Mailgun['client']> | null = null;
+
+function getMailgunClient() {
+    if (_mailgunClient) return _mailgunClient;
+
+    const apiKey = process.env.MAILGUN_API_KEY;
+    if (!apiKey) {
+        throw new Error('Missing MAILGUN_API_KEY environment variable');
+    }
+
+    const mailgun = new Mailgun(FormData);
+    _mailgunClient = mailgun.client({
+        username: 'api',
+        key: apiKey,
+    });
+
+    return _mailgunClient;
+}
+
+function getDomain(): string {
+    const domain = process.env.MAILGUN_DOMAIN;
+    if (!domain) {
+        throw new Error('Missing MAILGUN_DOMAIN environment variable');
+    }
+    return domain;
+}
+
+export const mailgunTransport: EmailTransport = {
+    name: 'mailgun',
+
+    async send(email) {
+        const result = await getMailgunClient().messages.create(getDomain(), {
+            from: email.from,
+            to: [email.to],
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+        });
+
+        if (!result.id) {
+            throw new Error(`Mailgun did not accept the message: ${result.message ?? result.status}`);
+        }
+
+        return result.id;
+    },
+};
@@ -0,0 +1,40 @@
+/**
+ * SMTP Transport
+ *
+ * Sends through any SMTP server, e.g. a provider's SMTP relay or a local
+ * catcher like Mailpit (SMTP_URL=smtp://localhost:1025).
+ *
+ * SMTP_URL takes the form smtp[s]://user:password@host:port
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import type { EmailTransport } from './types';
+
+// Lazy initialization to avoid build-time errors; reuses pooled connections
+let _smtpTransporter: Transporter | null = null;
+
+function getSmtpTransporter(): Transporter {
+    if (_smtpTransporter) return _smtpTransporter;
+
+    const url = process.env.SMTP_URL;
+    if (!url) {
+        throw new Error('Missing SMTP_URL environment variable');
+    }
+
+    _smtpTransporter = nodemailer.createTransport(url);
+    return _smtpTransporter;
+}
+
+export const smtpTransport: EmailTransport = {
+    name: 'smtp',
+
+    async send(email) {
+        const info = await getSmtpTransporter().sendMail(email);
+
+        if (info.rejected.length > 0) {
+            throw new Error(`SMTP server rejected ${info.rejected.join(', ')}: ${info.response}`);
+        }
+
+        return info.messageId;
+    },
+};
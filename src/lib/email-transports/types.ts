@@ -0,0 +1,26 @@
+/**
+ * Email Transport Types
+ *
+ * A transport hands a fully rendered email to whatever delivers it (an email
+ * API, an SMTP server, or files on disk). Rendering, logging and error handling
+ * stay in mailer.ts, so every transport sends exactly the same message.
+ */
+
+export type EmailTransportName = 'mailgun' | 'smtp' | 'file';
+
+export interface OutgoingEmail {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface EmailTransport {
+    name: EmailTransportName;
+    /**
+     * Send the email and return the message id assigned to it.
+     * Throws if the message was not accepted.
+     */
+    send(email: OutgoingEmail): Promise<string>;
+}
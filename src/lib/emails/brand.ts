@@ -0,0 +1,39 @@
+/**
+ * Email Branding
+ *
+ * Product name and links shown in every email, from the environment:
+ * - NEXT_PUBLIC_APP_URL: where respondents redeem their reward (required)
+ * - EMAIL_SUPPORT_URL: support page linked from the footer (defaults to the app URL)
+ * - EMAIL_BRAND_NAME: product name used in the copy and signature
+ */
+
+export interface Brand {
+  name: string;
+  appUrl: string;
+  // App URL as shown in link text, e.g. "flowcrest.app"
+  appLabel: string;
+  supportUrl: string;
+}
+
+const DEFAULT_BRAND_NAME = 'Flowcrest';
+
+export function getBrand(): Brand {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    throw new Error('Missing NEXT_PUBLIC_APP_URL environment variable');
+  }
+
+  let appLabel: string;
+  try {
+    appLabel = new URL(appUrl).host.replace(/^www\./, '');
+  } catch {
+    throw new Error(`Invalid NEXT_PUBLIC_APP_URL "${appUrl}"`);
+  }
+
+  return {
+    name: process.env.EMAIL_BRAND_NAME || DEFAULT_BRAND_NAME,
+    appUrl,
+    appLabel,
+    supportUrl: process.env.EMAIL_SUPPORT_URL || appUrl,
+  };
+}
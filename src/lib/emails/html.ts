@@ -0,0 +1,51 @@
+/**
+ * HTML Escaping
+ *
+ * Email markup is built with the `html` tagged template, which escapes every
+ * interpolated value unless it is already SafeHtml (markup produced by `html`,
+ * `raw`, a layout partial or a message catalog). Respondent names, codes and
+ * campaign settings therefore can never inject markup into an email.
+ */
+
+export interface SafeHtml {
+  readonly __html: string;
+}
+
+export type HtmlValue = SafeHtml | string | number | null | undefined | false | HtmlValue[];
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+export function isSafeHtml(value: unknown): value is SafeHtml {
+  return typeof value === 'object' && value !== null && typeof (value as SafeHtml).__html === 'string';
+}
+
+/**
+ * Mark trusted markup as safe to interpolate unescaped
+ */
+export function raw(markup: string): SafeHtml {
+  return { __html: markup };
+}
+
+/**
+ * Render an interpolated value: arrays are concatenated, null/undefined/false render nothing
+ */
+function renderValue(value: HtmlValue): string {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (isSafeHtml(value)) return value.__html;
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return raw(strings.reduce((out, part, i) => out + part + (i < values.length ? renderValue(values[i]) : ''), ''));
+}
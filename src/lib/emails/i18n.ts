@@ -0,0 +1,119 @@
+/**
+ * Email Localization
+ *
+ * Per-locale message catalogs (src/lib/emails/locales) with typed variables:
+ * the {placeholders} in the English catalog define which variables each
+ * message takes, so `t('credit.subject', { amount })` is checked at compile time.
+ *
+ * A submission's locale comes from a survey answer or a Tally hidden field
+ * (see src/lib/respondent.ts) and is stored on the submission; emails for
+ * submissions without one are sent in DEFAULT_LOCALE.
+ */
+
+import { escapeHtml, isSafeHtml, raw, SafeHtml } from './html';
+import { htmlToText } from './text';
+import { en } from './locales/en';
+import { de } from './locales/de';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageValue = string | number | SafeHtml;
+
+type Placeholders<S extends string> = S extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | Placeholders<Rest>
+  : never;
+
+type MessageArgs<K extends MessageKey> = [Placeholders<(typeof en)[K]>] extends [never]
+  ? []
+  : [vars: Record<Placeholders<(typeof en)[K]>, MessageValue>];
+
+interface LocaleDefinition {
+  messages: Messages;
+  // Locale used for date and currency formatting
+  intlLocale: string;
+  // Answer texts that select this locale besides its code, lowercase
+  names: string[];
+}
+
+const LOCALES = {
+  en: { messages: en, intlLocale: 'en-IE', names: ['english', 'englisch'] },
+  de: { messages: de, intlLocale: 'de-DE', names: ['german', 'deutsch'] },
+} satisfies Record<string, LocaleDefinition>;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+}
+
+/**
+ * Map an answer or hidden field value ("de", "de-AT", "Deutsch") to a supported
+ * locale. Choice answers may be arrays; the first recognised entry wins.
+ */
+export function resolveLocale(value: unknown): Locale | null {
+  const candidates = Array.isArray(value) ? value : [value];
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+
+    const normalized = candidate.trim().toLowerCase();
+    const language = normalized.split(/[-_]/)[0];
+    if (isLocale(language)) return language;
+
+    const named = SUPPORTED_LOCALES.find(locale => LOCALES[locale].names.includes(normalized));
+    if (named) return named;
+  }
+
+  return null;
+}
+
+export interface Translator {
+  locale: Locale;
+  // Message as markup, with variables escaped
+  t<K extends MessageKey>(key: K, ...args: MessageArgs<K>): SafeHtml;
+  // Message as plain text (subjects)
+  text<K extends MessageKey>(key: K, ...args: MessageArgs<K>): string;
+  formatDate(iso: string): string;
+  // Amount in the currency's minor unit (e.g. cents)
+  formatAmount(amount: number, currency: string): string;
+  formatPercent(percent: number): string;
+}
+
+function interpolate(locale: Locale, key: MessageKey, vars: Record<string, MessageValue> = {}): SafeHtml {
+  const message = LOCALES[locale].messages[key];
+
+  return raw(message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = vars[name];
+    if (value === undefined) {
+      console.warn(`[Email i18n] Missing variable "${name}" for ${locale} message "${key}"`);
+      return '';
+    }
+    return isSafeHtml(value) ? value.__html : escapeHtml(String(value));
+  }));
+}
+
+export function getTranslator(locale: Locale): Translator {
+  const { intlLocale } = LOCALES[locale];
+
+  return {
+    locale,
+    t: (key, ...args) => interpolate(locale, key, args[0]),
+    text: (key, ...args) => htmlToText(interpolate(locale, key, args[0]).__html),
+    formatDate: iso => new Date(iso).toLocaleDateString(intlLocale, {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }),
+    formatAmount: (amount, currency) => {
+      const format = new Intl.NumberFormat(intlLocale, { style: 'currency', currency: currency.toUpperCase() });
+      const minorDigits = format.resolvedOptions().maximumFractionDigits ?? 2;
+      return format.format(amount / 10 ** minorDigits);
+    },
+    formatPercent: percent => new Intl.NumberFormat(intlLocale, { style: 'percent', maximumFractionDigits: 2 }).format(percent / 100),
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Email Layout Partials
+ *
+ * The shared document shell (header, content area, footer) and the building
+ * blocks templates compose their content from. Every email is rendered as
+ * HTML once; the plain-text part is generated from it (see ./text.ts).
+ */
+
+import { html, HtmlValue, SafeHtml } from './html';
+import { htmlToText } from './text';
+import { getTranslator, Locale, Translator } from './i18n';
+import { getBrand, Brand } from './brand';
+
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Who an email is for: passed to every template alongside its own variables
+ */
+export interface EmailContext {
+  locale: Locale;
+  // Respondent's name, when the survey asked for it
+  name?: string;
+}
+
+/**
+ * Everything a template needs to render: messages, branding and the recipient
+ */
+export interface RenderContext {
+  i18n: Translator;
+  brand: Brand;
+  name?: string;
+}
+
+export function createRenderContext(context: EmailContext): RenderContext {
+  return {
+    i18n: getTranslator(context.locale),
+    brand: getBrand(),
+    name: context.name?.trim() || undefined,
+  };
+}
+
+const THEMES = {
+  brand: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+  muted: 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)',
+};
+
+export function link(href: string, label: HtmlValue, color: string = '#667eea'): SafeHtml {
+  return html`<a href="${href}" style="color: ${color}; text-decoration: none;">${label}</a>`;
+}
+
+export function appLink(ctx: RenderContext): SafeHtml {
+  return link(ctx.brand.appUrl, ctx.brand.appLabel);
+}
+
+export function paragraph(content: HtmlValue, variant: 'lead' | 'body' = 'lead'): SafeHtml {
+  return variant === 'lead'
+    ? html`<p style="color: #333; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">${content}</p>`
+    : html`<p style="color: #555; font-size: 15px; line-height: 1.6; margin: 0 0 20px 0;">${content}</p>`;
+}
+
+export function sectionHeading(content: HtmlValue): SafeHtml {
+  return html`<h3 style="color: #333; font-size: 18px; margin: 30px 0 15px 0;">${content}</h3>`;
+}
+
+export function orderedList(items: HtmlValue[]): SafeHtml {
+  return html`
+<ol style="color: #555; font-size: 15px; line-height: 2.0; padding-left: 20px; margin: 0;">
+  ${items.map(item => html`<li>${item}</li>`)}
+</ol>`;
+}
+
+export function inlineCode(code: string): SafeHtml {
+  return html`<strong style="color: #667eea; font-family: monospace;">${code}</strong>`;
+}
+
+/**
+ * Dashed box highlighting a code the respondent has to copy
+ */
+export function codeBox(label: HtmlValue, code: string): SafeHtml {
+  return html`
+<table width="100%" cellpadding="0" cellspacing="0" style="margin: 30px 0;">
+  <tr>
+    <td align="center">
+      <div style="background: linear-gradient(135deg, #f6f8fc 0%, #eef1f8 100%); border: 2px dashed #667eea; border-radius: 10px; padding: 25px; display: inline-block;">
+        <p style="color: #666; font-size: 14px; margin: 0 0 10px 0; text-transform: uppercase; letter-spacing: 1px;">${label}</p>
+        <p style="color: #667eea; font-size: 28px; font-weight: 700; margin: 0; font-family: monospace; letter-spacing: 2px;">${code}</p>
+      </div>
+    </td>
+  </tr>
+</table>`;
+}
+
+export function callout(content: HtmlValue, tone: 'success' | 'warning'): SafeHtml {
+  return tone === 'success'
+    ? html`
+<div style="background-color: #ecfdf5; border-left: 4px solid #10b981; padding: 15px 20px; margin: 25px 0; border-radius: 0 8px 8px 0;">
+  <p style="color: #065f46; font-size: 14px; margin: 0;">${content}</p>
+</div>`
+    : html`
+<div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px 20px; margin: 25px 0; border-radius: 0 8px 8px 0;">
+  <p style="color: #92400e; font-size: 14px; margin: 0; font-weight: 500;">${content}</p>
+</div>`;
+}
+
+export function finePrint(content: HtmlValue): SafeHtml {
+  return html`<p style="color: #888; font-size: 14px; margin: 30px 0 0 0; padding-top: 20px; border-top: 1px solid #eee;">${content}</p>`;
+}
+
+function footer(ctx: RenderContext, withSupport: boolean): SafeHtml {
+  const { i18n, brand } = ctx;
+  const signature = i18n.t('common.signature', { brand: brand.name });
+
+  return html`
+<tr>
+  <td style="background-color: #f9f9f9; padding: 25px 30px; text-align: center; border-top: 1px solid #eee;">
+    ${withSupport
+      ? html`
+    <p style="color: #888; font-size: 13px; margin: 0;">${i18n.t('common.questions', { supportLink: link(brand.supportUrl, i18n.t('common.supportLink')) })}</p>
+    <p style="color: #aaa; font-size: 12px; margin: 10px 0 0 0;">${signature}</p>`
+      : html`
+    <p style="color: #888; font-size: 13px; margin: 0;">${signature}</p>`}
+  </td>
+</tr>`;
+}
+
+export interface LayoutOptions {
+  title: HtmlValue;
+  heading: HtmlValue;
+  subheading?: HtmlValue;
+  theme?: keyof typeof THEMES;
+  // Emails that link support in their body skip the footer link
+  supportFooter?: boolean;
+  content: HtmlValue;
+}
+
+/**
+ * Wrap content in the shared document shell, greeting the respondent by name when known
+ */
+export function layout(ctx: RenderContext, options: LayoutOptions): string {
+  const { title, heading, subheading, theme = 'brand', supportFooter = true, content } = options;
+  const greeting = ctx.name ? paragraph(ctx.i18n.t('common.greeting', { name: ctx.name })) : null;
+
+  return html`<!DOCTYPE html>
+<html lang="${ctx.i18n.locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+
+          <!-- Header -->
+          <tr>
+            <td style="background: ${THEMES[theme]}; padding: 40px 30px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">${heading}</h1>
+              ${subheading && html`<p style="color: rgba(255, 255, 255, 0.9); margin: 15px 0 0 0; font-size: 16px;">${subheading}</p>`}
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+${greeting}
+${content}
+            </td>
+          </tr>
+
+          <!-- Footer -->
+${footer(ctx, supportFooter)}
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`.__html;
+}
+
+/**
+ * Final template output: the text part is always derived from the HTML
+ */
+export function renderEmail(subject: string, document: string): EmailTemplate {
+  return { subject, html: document, text: htmlToText(document) };
+}
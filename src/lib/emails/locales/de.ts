@@ -0,0 +1,66 @@
+/**
+ * German Email Messages
+ */
+
+import type { Messages } from '../i18n';
+
+export const de: Messages = {
+  'common.greeting': 'Hallo {name},',
+  'common.supportLink': 'Kontaktiere unser Support-Team',
+  'common.questions': 'Fragen? {supportLink}.',
+  'common.signature': 'Dein {brand}-Team',
+
+  'reward.title': 'Deine Umfrage-Belohnung',
+  'reward.heading': 'Vielen Dank! 🎉',
+  'reward.subheading': 'Deine Antworten wurden bestätigt',
+  'reward.intro': 'Wir wissen es sehr zu schätzen, dass du dir die Zeit für unsere Umfrage genommen hast.',
+
+  'promo.subject': '🎉 Danke! Hier ist deine Belohnung',
+  'promo.offer': 'Als Dankeschön bekommst du <strong>{discount} Rabatt auf jedes Abo</strong>!',
+  'promo.offerUnknown': 'Als Dankeschön bekommst du einen Gutscheincode mit Rabatt auf dein Abo!',
+  'promo.codeLabel': 'Dein Gutscheincode',
+  'promo.howTo': 'So löst du deine Belohnung ein:',
+  'promo.step.visit': '<strong>Besuche</strong> {appLink}',
+  'promo.step.register': '<strong>Registriere</strong> dich kostenlos (oder melde dich an, falls du schon ein Konto hast)',
+  'promo.step.pricing': 'Öffne die Seite <strong>Preise</strong>',
+  'promo.step.plan': '<strong>Wähle deinen Plan</strong> — Monats- oder Jahresabo',
+  'promo.step.checkout': 'Klicke auf der <strong>Stripe-Checkout-Seite</strong> auf „Gutscheincode hinzufügen“',
+  'promo.step.enter': 'Gib deinen Code ein: {code}',
+  'promo.step.enjoy': 'Schließe den Kauf ab und leg los! 🚀',
+  'promo.terms': 'Dieser Code ist nur einmal gültig und nicht mit anderen Angeboten kombinierbar.',
+  'promo.expires': 'Er läuft am {date} ab.',
+
+  'pool.subject': '🎉 Danke! Hier ist dein Belohnungscode',
+  'pool.offer': 'Als Dankeschön erhältst du diesen Belohnungscode:',
+  'pool.codeLabel': 'Dein Belohnungscode',
+  'pool.terms': 'Dieser Code ist nur einmal gültig.',
+
+  'credit.subject': '🎉 Danke! {amount} Guthaben wurde deinem Konto gutgeschrieben',
+  'credit.offer': 'Als Dankeschön haben wir deinem {brand}-Konto <strong>{amount} Guthaben</strong> gutgeschrieben.',
+  'credit.note': '<strong>💡 Nichts einzulösen:</strong> Das Guthaben wird automatisch mit deiner nächsten Rechnung verrechnet, wenn du auf {appLink} mit dieser E-Mail-Adresse ein Abo abschließt.',
+
+  'raffle.subject': '🎉 Danke! Du nimmst an unserer Verlosung teil',
+  'raffle.entered': 'Als Dankeschön nimmst du an der Verlosung <strong>{raffle}</strong> teil.',
+  'raffle.enteredForPrize': 'Als Dankeschön nimmst du an der Verlosung <strong>{raffle}</strong> teil und kannst <strong>{prize}</strong> gewinnen.',
+  'raffle.drawOn': 'Die Gewinner werden am {date} gezogen und per E-Mail benachrichtigt.',
+  'raffle.drawLater': 'Die Gewinner werden per E-Mail benachrichtigt.',
+
+  'abuse.subject': 'Umfrageteilnahme - Hinweis zur Überprüfung',
+  'abuse.title': 'Hinweis zu deiner Umfrageteilnahme',
+  'abuse.heading': 'Hinweis zur Überprüfung',
+  'abuse.thanks': 'Vielen Dank für dein Interesse an unserer Umfrage.',
+  'abuse.verification': 'Wir nutzen ein mehrstufiges Prüfverfahren, um die Echtheit und Qualität der Antworten sicherzustellen. Dazu gehören Verhaltensanalyse, die Auswertung von Antwortmustern und Konsistenzprüfungen über mehrere Datenpunkte.',
+  'abuse.failed': 'Leider hat deine Teilnahme unsere Überprüfung nicht bestanden. Unser System hat Unstimmigkeiten festgestellt, die eine Bestätigung deiner Antworten verhindert haben.',
+  'abuse.noReward': 'Daher können wir für diese Teilnahme keine Belohnung vergeben.',
+  'abuse.supportLink': 'kontaktiere unser Support-Team',
+  'abuse.contact': 'Wenn du glaubst, dass es sich um einen Fehler handelt, {supportLink} bitte mit Angaben zu deiner Teilnahme.',
+
+  'reminder.subject': '⏰ Vergiss deine Umfrage-Belohnung nicht',
+  'reminder.subjectExpiring': '⏰ Deine Umfrage-Belohnung läuft am {date} ab',
+  'reminder.title': 'Deine Umfrage-Belohnung wartet',
+  'reminder.heading': 'Deine Belohnung wartet ⏰',
+  'reminder.body': 'Nochmals danke für deine Teilnahme an unserer Umfrage! Uns ist aufgefallen, dass du deinen Gutscheincode noch nicht eingelöst hast.',
+  'reminder.expiring': 'Er ist bis zum <strong>{date}</strong> gültig, also warte nicht zu lange!',
+  'reminder.noExpiry': 'Er wartet auf dich, wann immer du so weit bist.',
+  'reminder.redeem': 'Besuche {appLink}, wähle deinen Plan und gib den Code auf der Stripe-Checkout-Seite unter „Gutscheincode hinzufügen“ ein.',
+};
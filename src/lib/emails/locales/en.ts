@@ -0,0 +1,68 @@
+/**
+ * English Email Messages
+ *
+ * The reference catalog: every other locale must define the same keys, and the
+ * {placeholders} used here determine the variables each message takes.
+ * Messages may contain markup; placeholder values are HTML-escaped.
+ */
+
+export const en = {
+  'common.greeting': 'Hi {name},',
+  'common.supportLink': 'Contact our support team',
+  'common.questions': 'Questions? {supportLink}.',
+  'common.signature': '{brand} Team',
+
+  'reward.title': 'Your Survey Reward',
+  'reward.heading': 'Thank You! 🎉',
+  'reward.subheading': 'Your survey response has been verified',
+  'reward.intro': 'We truly appreciate you taking the time to complete our survey.',
+
+  'promo.subject': '🎉 Thank you! Here\'s your reward',
+  'promo.offer': 'As a thank you, we\'re giving you <strong>{discount} off any subscription</strong>!',
+  'promo.offerUnknown': 'As a thank you, here is a promo code for a discount on your subscription!',
+  'promo.codeLabel': 'Your Promo Code',
+  'promo.howTo': 'How to redeem your reward:',
+  'promo.step.visit': '<strong>Visit</strong> {appLink}',
+  'promo.step.register': '<strong>Register</strong> for a free account (or log in if you already have one)',
+  'promo.step.pricing': 'Go to <strong>Pricing</strong> page',
+  'promo.step.plan': '<strong>Choose your plan</strong> — Monthly or Yearly subscription',
+  'promo.step.checkout': 'On the <strong>Stripe checkout page</strong>, click "Add promotion code"',
+  'promo.step.enter': 'Enter your code: {code}',
+  'promo.step.enjoy': 'Complete your purchase and enjoy! 🚀',
+  'promo.terms': 'This code is valid for one-time use only and cannot be combined with other offers.',
+  'promo.expires': 'It expires on {date}.',
+
+  'pool.subject': '🎉 Thank you! Here\'s your reward code',
+  'pool.offer': 'As a thank you, here is your reward code:',
+  'pool.codeLabel': 'Your Reward Code',
+  'pool.terms': 'This code is valid for one-time use only.',
+
+  'credit.subject': '🎉 Thank you! {amount} credit added to your account',
+  'credit.offer': 'As a thank you, we\'ve added <strong>{amount} of credit</strong> to your {brand} account.',
+  'credit.note': '<strong>💡 Nothing to redeem:</strong> the credit is applied automatically to your next invoice when you subscribe at {appLink} with this email address.',
+
+  'raffle.subject': '🎉 Thank you! You\'re entered in our prize draw',
+  'raffle.entered': 'As a thank you, you\'ve been entered into the <strong>{raffle}</strong> draw.',
+  'raffle.enteredForPrize': 'As a thank you, you\'ve been entered into the <strong>{raffle}</strong> draw for a chance to win <strong>{prize}</strong>.',
+  'raffle.drawOn': 'The winner will be drawn on {date} and notified by email.',
+  'raffle.drawLater': 'Winners will be notified by email.',
+
+  'abuse.subject': 'Survey Submission - Verification Notice',
+  'abuse.title': 'Survey Submission Notice',
+  'abuse.heading': 'Submission Verification Notice',
+  'abuse.thanks': 'Thank you for your interest in completing our survey.',
+  'abuse.verification': 'We use a multi-layered verification system to ensure the authenticity and quality of survey responses. This includes behavioral analysis, response pattern evaluation, and consistency checks across multiple data points.',
+  'abuse.failed': 'Unfortunately, your submission did not pass our verification process. Our system detected inconsistencies that prevented us from validating your response.',
+  'abuse.noReward': 'As a result, we are unable to issue a reward for this submission.',
+  'abuse.supportLink': 'contact our support team',
+  'abuse.contact': 'If you believe this was made in error, please {supportLink} with details about your submission.',
+
+  'reminder.subject': '⏰ Don\'t forget your survey reward',
+  'reminder.subjectExpiring': '⏰ Your survey reward expires on {date}',
+  'reminder.title': 'Your Survey Reward Is Waiting',
+  'reminder.heading': 'Your reward is waiting ⏰',
+  'reminder.body': 'Thanks again for completing our survey! We noticed you haven\'t used your promo code yet.',
+  'reminder.expiring': 'It\'s valid until <strong>{date}</strong>, so don\'t wait too long!',
+  'reminder.noExpiry': 'It\'s waiting for you whenever you\'re ready.',
+  'reminder.redeem': 'Visit {appLink}, choose your plan, and enter the code on the Stripe checkout page under "Add promotion code".',
+} as const;
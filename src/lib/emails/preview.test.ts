@@ -0,0 +1,52 @@
+/**
+ * Email Preview Tests
+ *
+ * Preview selections are validated before rendering, and test-send
+ * recipients must be a single address on EMAIL_TEST_RECIPIENTS.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isAllowedTestRecipient, resolvePreviewOptions, InvalidPreviewError } from './preview';
+
+describe('resolvePreviewOptions', () => {
+  it('fills in the defaults', async () => {
+    await expect(resolvePreviewOptions({})).resolves.toMatchObject({
+      type: 'reward',
+      reward: { type: 'stripe_promotion_code' },
+    });
+  });
+
+  it.each(['toString', '__proto__', 'constructor', 'gift_card'])('rejects the unknown reward type %s', async rewardType => {
+    await expect(resolvePreviewOptions({ rewardType })).rejects.toThrow(InvalidPreviewError);
+  });
+});
+
+describe('isAllowedTestRecipient', () => {
+  beforeEach(() => {
+    vi.stubEnv('EMAIL_TEST_RECIPIENTS', 'qa@flowcrest.app, @flowcrest.test');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts listed addresses and domains', () => {
+    expect(isAllowedTestRecipient(' QA@flowcrest.app ')).toBe(true);
+    expect(isAllowedTestRecipient('anyone@flowcrest.test')).toBe(true);
+  });
+
+  it('rejects unlisted addresses', () => {
+    expect(isAllowedTestRecipient('someone@example.com')).toBe(false);
+    expect(isAllowedTestRecipient('someone@notflowcrest.app')).toBe(false);
+  });
+
+  it.each([
+    'someone@example.com, qa@flowcrest.app',
+    'someone@example.com;qa@flowcrest.app',
+    'Someone <someone@example.com>, anyone@flowcrest.test',
+    'QA <qa@flowcrest.app>',
+    'someone@example.com qa@flowcrest.app',
+  ])('rejects anything but a single address: %s', to => {
+    expect(isAllowedTestRecipient(to)).toBe(false);
+  });
+});
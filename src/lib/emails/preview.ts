@@ -0,0 +1,193 @@
+/**
+ * Email Previews
+ *
+ * Renders any registered template with sample data, for the admin preview
+ * page (/admin/emails) and the template snapshot tests. Previews for a
+ * campaign use its reward settings and template names; without one, the
+ * reward type picks a sample reward.
+ *
+ * Test sends go through the configured email transport, only to addresses in
+ * EMAIL_TEST_RECIPIENTS (comma-separated addresses, or @domain for a whole domain).
+ */
+
+import { resolveCampaignForForm, RewardSettings, RewardType } from '../campaigns';
+import type { RewardEmailData } from '../reward-providers/types';
+import { getCampaignById, OutboxEmailType } from '../supabase';
+import { sendPreviewEmail, EmailResult } from '../mailer';
+import { generatePromoCode, resolvePromoCodeFormat } from '../promo-codes';
+import { getRewardTemplate, getAbuseTemplate, getReminderTemplate, getTemplateNames, DEFAULT_TEMPLATE } from './templates';
+import type { ReminderEmailData } from './reminder-template';
+import type { EmailContext, EmailTemplate } from './layout';
+import { DEFAULT_LOCALE, isLocale, Locale } from './i18n';
+
+export const EMAIL_TYPES: OutboxEmailType[] = ['reward', 'abuse', 'reminder'];
+
+// Fixed so previews and snapshots don't change from one day to the next
+const SAMPLE_ISSUED_AT = Date.parse('2026-01-25T12:00:00.000Z');
+// Alphabet indexes cycled through for sample codes
+const SAMPLE_CODE_PICKS = [5, 10, 16, 25, 21, 6, 31, 11];
+
+export const SAMPLE_REWARDS: Record<RewardType, RewardSettings> = {
+  stripe_promotion_code: { type: 'stripe_promotion_code', expiresInDays: 30 },
+  stripe_customer_credit: { type: 'stripe_customer_credit', amount: 500, currency: 'eur' },
+  code_pool: { type: 'code_pool', pool: 'sample' },
+  raffle: { type: 'raffle', raffle: 'Spring 2026', prize: 'a year of Pro', drawDate: '2026-03-31' },
+};
+
+export interface EmailPreviewOptions {
+  type: OutboxEmailType;
+  template: string;
+  locale: Locale;
+  reward: RewardSettings;
+  name?: string;
+}
+
+/**
+ * Preview selection as received from the query string or a form
+ */
+export interface EmailPreviewParams {
+  type?: string;
+  template?: string;
+  locale?: string;
+  campaign?: string;
+  rewardType?: string;
+  name?: string;
+}
+
+export class InvalidPreviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPreviewError';
+  }
+}
+
+/**
+ * A fixed code in the campaign's code format
+ */
+function sampleCode(settings: Extract<RewardSettings, { type: 'stripe_promotion_code' }>): string {
+  return generatePromoCode(
+    resolvePromoCodeFormat(settings.codeFormat),
+    (size, position) => SAMPLE_CODE_PICKS[position % SAMPLE_CODE_PICKS.length] % size
+  );
+}
+
+function sampleExpiry(expiresInDays?: number): string | undefined {
+  return expiresInDays
+    ? new Date(SAMPLE_ISSUED_AT + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+}
+
+export function sampleRewardData(settings: RewardSettings): RewardEmailData {
+  switch (settings.type) {
+    case 'stripe_promotion_code':
+      // The real discount comes from the Stripe coupon at issue time
+      return {
+        type: 'stripe_promotion_code',
+        code: sampleCode(settings),
+        expiresAt: sampleExpiry(settings.expiresInDays),
+        amountOff: 290,
+        currency: 'eur',
+      };
+    case 'stripe_customer_credit':
+      return { type: 'stripe_customer_credit', amount: settings.amount, currency: settings.currency };
+    case 'code_pool':
+      return { type: 'code_pool', code: 'GIFT-2026-0001' };
+    case 'raffle':
+      return { type: 'raffle', raffle: settings.raffle, prize: settings.prize, drawDate: settings.drawDate };
+  }
+}
+
+/**
+ * Reminders are only sent for promotion codes, so other reward types preview
+ * with a sample promotion code
+ */
+function sampleReminderData(settings: RewardSettings): ReminderEmailData {
+  const promo = settings.type === 'stripe_promotion_code' ? settings : SAMPLE_REWARDS.stripe_promotion_code;
+  const reward = sampleRewardData(promo) as Extract<RewardEmailData, { type: 'stripe_promotion_code' }>;
+
+  return { code: reward.code, expiresAt: reward.expiresAt, reminderNumber: 1 };
+}
+
+export function renderEmailPreview(options: EmailPreviewOptions): EmailTemplate {
+  const context: EmailContext = { locale: options.locale, name: options.name };
+
+  switch (options.type) {
+    case 'reward':
+      return getRewardTemplate(options.template)(sampleRewardData(options.reward), context);
+    case 'abuse':
+      return getAbuseTemplate(options.template)(context);
+    case 'reminder':
+      return getReminderTemplate(options.template)(sampleReminderData(options.reward), context);
+  }
+}
+
+/**
+ * Validate a preview selection, filling in the campaign's (or default) template,
+ * locale and reward settings for anything not chosen explicitly
+ */
+export async function resolvePreviewOptions(params: EmailPreviewParams): Promise<EmailPreviewOptions> {
+  const type = (params.type || 'reward') as OutboxEmailType;
+  if (!EMAIL_TYPES.includes(type)) {
+    throw new InvalidPreviewError(`Unknown email type "${params.type}"`);
+  }
+
+  let campaign = null;
+  if (params.campaign) {
+    const row = await getCampaignById(params.campaign);
+    if (!row) {
+      throw new InvalidPreviewError(`Unknown campaign "${params.campaign}"`);
+    }
+    campaign = await resolveCampaignForForm(row.form_id);
+  }
+
+  const rewardType = (params.rewardType || 'stripe_promotion_code') as RewardType;
+  if (!campaign && !Object.prototype.hasOwnProperty.call(SAMPLE_REWARDS, rewardType)) {
+    throw new InvalidPreviewError(`Unknown reward type "${params.rewardType}"`);
+  }
+
+  if (params.locale && !isLocale(params.locale)) {
+    throw new InvalidPreviewError(`Unsupported locale "${params.locale}"`);
+  }
+
+  const template = params.template || campaign?.emailTemplates[type] || DEFAULT_TEMPLATE;
+  if (!getTemplateNames(type).includes(template)) {
+    throw new InvalidPreviewError(`Unknown ${type} template "${template}"`);
+  }
+
+  return {
+    type,
+    template,
+    locale: (params.locale as Locale | undefined) || campaign?.defaultLocale || DEFAULT_LOCALE,
+    reward: campaign?.reward ?? SAMPLE_REWARDS[rewardType],
+    name: params.name?.trim() || undefined,
+  };
+}
+
+// One bare address: a list ("a@x, b@y") or display-name form ("Name <a@x>")
+// could end with an allowed address while also reaching someone else
+const SINGLE_ADDRESS = /^[^\s@,;<>]+@[^\s@,;<>]+$/;
+
+export function isAllowedTestRecipient(email: string): boolean {
+  const address = email.trim().toLowerCase();
+  if (!SINGLE_ADDRESS.test(address)) {
+    return false;
+  }
+
+  const allowed = (process.env.EMAIL_TEST_RECIPIENTS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return allowed.some(entry => entry.startsWith('@') ? address.endsWith(entry) : address === entry);
+}
+
+/**
+ * Render a preview and send it to an allow-listed test address
+ */
+export async function sendTestEmail(to: string, options: EmailPreviewOptions): Promise<EmailResult> {
+  if (!isAllowedTestRecipient(to)) {
+    throw new InvalidPreviewError(`${to} is not in EMAIL_TEST_RECIPIENTS`);
+  }
+
+  return sendPreviewEmail(to.trim(), renderEmailPreview(options));
+}
@@ -0,0 +1,36 @@
+/**
+ * Reward Reminder Email Template
+ *
+ * Sent when a respondent's promotion code is still unredeemed some days after
+ * the reward email (see src/lib/reminders.ts). Mentions the expiry date when
+ * the code has one.
+ */
+
+import { appLink, codeBox, createRenderContext, EmailContext, EmailTemplate, layout, paragraph, renderEmail } from './layout';
+import { html } from './html';
+
+export interface ReminderEmailData {
+  code: string;
+  expiresAt?: string;
+  reminderNumber: number;
+}
+
+export function getReminderEmailTemplate(reminder: ReminderEmailData, context: EmailContext): EmailTemplate {
+  const ctx = createRenderContext(context);
+  const { i18n } = ctx;
+  const { code, expiresAt } = reminder;
+  const expiryDate = expiresAt ? i18n.formatDate(expiresAt) : null;
+
+  const subject = expiryDate
+    ? i18n.text('reminder.subjectExpiring', { date: expiryDate })
+    : i18n.text('reminder.subject');
+
+  return renderEmail(subject, layout(ctx, {
+    title: i18n.t('reminder.title'),
+    heading: i18n.t('reminder.heading'),
+    content: html`
+${paragraph(html`${i18n.t('reminder.body')} ${expiryDate ? i18n.t('reminder.expiring', { date: expiryDate }) : i18n.t('reminder.noExpiry')}`)}
+${codeBox(i18n.t('promo.codeLabel'), code)}
+${paragraph(i18n.t('reminder.redeem', { appLink: appLink(ctx) }), 'body')}`,
+  }));
+}
@@ -1,144 +1,139 @@
 /**
  * Reward Email Template
- * 
- * Email sent to valid users containing their promotion code
- * and detailed instructions for redemption.
+ *
+ * Email sent to valid users with their reward. The content depends on the
+ * campaign's reward type: a promotion code with redemption steps, account
+ * credit, a pool code, or a raffle entry. Promotion codes state the coupon's
+ * discount when it was recorded at issue time.
  */
 
-interface EmailTemplate {
+import type { RewardEmailData } from '../reward-providers/types';
+import {
+  appLink,
+  callout,
+  codeBox,
+  createRenderContext,
+  EmailContext,
+  EmailTemplate,
+  finePrint,
+  inlineCode,
+  layout,
+  orderedList,
+  paragraph,
+  RenderContext,
+  renderEmail,
+  sectionHeading,
+} from './layout';
+import { html, SafeHtml } from './html';
+
+interface RewardContent {
   subject: string;
-  html: string;
-  text: string;
+  content: SafeHtml;
+}
+
+type PromotionCodeData = Extract<RewardEmailData, { type: 'stripe_promotion_code' }>;
+
+function discountLabel(ctx: RenderContext, reward: PromotionCodeData): string | null {
+  if (reward.amountOff && reward.currency) {
+    return ctx.i18n.formatAmount(reward.amountOff, reward.currency);
+  }
+  if (reward.percentOff) {
+    return ctx.i18n.formatPercent(reward.percentOff);
+  }
+  return null;
+}
+
+function promotionCodeContent(ctx: RenderContext, reward: PromotionCodeData): RewardContent {
+  const { i18n } = ctx;
+  const discount = discountLabel(ctx, reward);
+
+  return {
+    subject: i18n.text('promo.subject'),
+    content: html`
+${paragraph(html`${i18n.t('reward.intro')} ${discount ? i18n.t('promo.offer', { discount }) : i18n.t('promo.offerUnknown')}`)}
+${codeBox(i18n.t('promo.codeLabel'), reward.code)}
+${sectionHeading(i18n.t('promo.howTo'))}
+${orderedList([
+  i18n.t('promo.step.visit', { appLink: appLink(ctx) }),
+  i18n.t('promo.step.register'),
+  i18n.t('promo.step.pricing'),
+  i18n.t('promo.step.plan'),
+  i18n.t('promo.step.checkout'),
+  i18n.t('promo.step.enter', { code: inlineCode(reward.code) }),
+  i18n.t('promo.step.enjoy'),
+])}
+${finePrint(html`${i18n.t('promo.terms')}${reward.expiresAt && html` ${i18n.t('promo.expires', { date: i18n.formatDate(reward.expiresAt) })}`}`)}`,
+  };
+}
+
+function poolCodeContent(ctx: RenderContext, code: string): RewardContent {
+  const { i18n } = ctx;
+
+  return {
+    subject: i18n.text('pool.subject'),
+    content: html`
+${paragraph(html`${i18n.t('reward.intro')} ${i18n.t('pool.offer')}`)}
+${codeBox(i18n.t('pool.codeLabel'), code)}
+${finePrint(i18n.t('pool.terms'))}`,
+  };
 }
 
-export function getRewardEmailTemplate(promoCode: string): EmailTemplate {
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://flowcrest.app';
-
-  const subject = '🎉 Thank you! Here\'s your reward';
-
-  const html = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Your Survey Reward</title>
-</head>
-<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
-    <tr>
-      <td align="center">
-        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-          
-          <!-- Header -->
-          <tr>
-            <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 30px; text-align: center;">
-              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">
-                Thank You! 🎉
-              </h1>
-              <p style="color: rgba(255, 255, 255, 0.9); margin: 15px 0 0 0; font-size: 16px;">
-                Your survey response has been verified
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 40px 30px;">
-              <p style="color: #333; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
-                We truly appreciate you taking the time to complete our survey. As a thank you, we're giving you <strong>€2.90 off any subscription</strong> — that's <strong>1 month free</strong> on monthly plans, or €2.90 off yearly!
-              </p>
-              
-              <!-- Promo Code Box -->
-              <table width="100%" cellpadding="0" cellspacing="0" style="margin: 30px 0;">
-                <tr>
-                  <td align="center">
-                    <div style="background: linear-gradient(135deg, #f6f8fc 0%, #eef1f8 100%); border: 2px dashed #667eea; border-radius: 10px; padding: 25px; display: inline-block;">
-                      <p style="color: #666; font-size: 14px; margin: 0 0 10px 0; text-transform: uppercase; letter-spacing: 1px;">
-                        Your Promo Code
-                      </p>
-                      <p style="color: #667eea; font-size: 28px; font-weight: 700; margin: 0; font-family: monospace; letter-spacing: 2px;">
-                        ${promoCode}
-                      </p>
-                    </div>
-                  </td>
-                </tr>
-              </table>
-              
-              <h3 style="color: #333; font-size: 18px; margin: 30px 0 15px 0;">
-                How to redeem your reward:
-              </h3>
-              <ol style="color: #555; font-size: 15px; line-height: 2.0; padding-left: 20px; margin: 0;">
-                <li><strong>Visit</strong> <a href="${appUrl}" style="color: #667eea; text-decoration: none;">flowcrest.app</a></li>
-                <li><strong>Register</strong> for a free account (or log in if you already have one)</li>
-                <li>Go to <strong>Pricing</strong> page</li>
-                <li><strong>Choose your plan</strong> — Monthly or Yearly subscription</li>
-                <li>On the <strong>Stripe checkout page</strong>, click "Add promotion code"</li>
-                <li>Enter your code: <strong style="color: #667eea; font-family: monospace;">${promoCode}</strong></li>
-                <li>Complete your purchase and enjoy! 🚀</li>
-              </ol>
-              
-              <div style="background-color: #ecfdf5; border-left: 4px solid #10b981; padding: 15px 20px; margin: 25px 0; border-radius: 0 8px 8px 0;">
-                <p style="color: #065f46; font-size: 14px; margin: 0;">
-                  <strong>💡 Tip:</strong> This code gives you €2.90 off, which means your first month is completely free on any monthly plan!
-                </p>
-              </div>
-              
-              <p style="color: #888; font-size: 14px; margin: 30px 0 0 0; padding-top: 20px; border-top: 1px solid #eee;">
-                This code is valid for one-time use only and cannot be combined with other offers.
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="background-color: #f9f9f9; padding: 25px 30px; text-align: center; border-top: 1px solid #eee;">
-              <p style="color: #888; font-size: 13px; margin: 0;">
-                Questions? <a href="https://www.flowcrest.app/nodeprompter/help/help.html" style="color: #667eea; text-decoration: none;">Contact our support team</a> (scroll to Support section).
-              </p>
-              <p style="color: #aaa; font-size: 12px; margin: 10px 0 0 0;">
-                Flowcrest Team
-              </p>
-            </td>
-          </tr>
-          
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
-
-  const text = `
-Thank You! 🎉
-
-Your survey response has been verified.
-
-We truly appreciate you taking the time to complete our survey. As a thank you, we're giving you €2.90 off any subscription — that's 1 month free on monthly plans, or €2.90 off yearly!
-
-YOUR PROMO CODE: ${promoCode}
-
-How to redeem your reward:
-
-1. Visit flowcrest.app
-2. Register for a free account (or log in if you already have one)
-3. Go to Pricing page
-4. Choose your plan — Monthly or Yearly subscription
-5. On the Stripe checkout page, click "Add promotion code"
-6. Enter your code: ${promoCode}
-7. Complete your purchase and enjoy! 🚀
-
-💡 Tip: This code gives you €2.90 off, which means your first month is completely free on any monthly plan!
-
-This code is valid for one-time use only and cannot be combined with other offers.
-
-Questions? Contact our support team:
-https://www.flowcrest.app/nodeprompter/help/help.html
-(Scroll down to the Support section)
-
-Flowcrest Team
-  `.trim();
-
-  return { subject, html, text };
+function customerCreditContent(ctx: RenderContext, amount: number, currency: string): RewardContent {
+  const { i18n, brand } = ctx;
+  const formatted = i18n.formatAmount(amount, currency);
+
+  return {
+    subject: i18n.text('credit.subject', { amount: formatted }),
+    content: html`
+${paragraph(html`${i18n.t('reward.intro')} ${i18n.t('credit.offer', { amount: formatted, brand: brand.name })}`)}
+${callout(i18n.t('credit.note', { appLink: appLink(ctx) }), 'success')}`,
+  };
+}
+
+/**
+ * Draw dates are free text in the campaign settings; ISO dates are localized
+ */
+function formatDrawDate(ctx: RenderContext, drawDate: string): string {
+  return /^\d{4}-\d{2}-\d{2}/.test(drawDate) && !Number.isNaN(Date.parse(drawDate))
+    ? ctx.i18n.formatDate(drawDate)
+    : drawDate;
+}
+
+function raffleContent(ctx: RenderContext, raffle: string, prize?: string, drawDate?: string): RewardContent {
+  const { i18n } = ctx;
+  const entered = prize
+    ? i18n.t('raffle.enteredForPrize', { raffle, prize })
+    : i18n.t('raffle.entered', { raffle });
+
+  return {
+    subject: i18n.text('raffle.subject'),
+    content: html`
+${paragraph(html`${i18n.t('reward.intro')} ${entered}`)}
+${paragraph(drawDate ? i18n.t('raffle.drawOn', { date: formatDrawDate(ctx, drawDate) }) : i18n.t('raffle.drawLater'), 'body')}`,
+  };
+}
+
+function rewardContent(ctx: RenderContext, reward: RewardEmailData): RewardContent {
+  switch (reward.type) {
+    case 'stripe_promotion_code':
+      return promotionCodeContent(ctx, reward);
+    case 'code_pool':
+      return poolCodeContent(ctx, reward.code);
+    case 'stripe_customer_credit':
+      return customerCreditContent(ctx, reward.amount, reward.currency);
+    case 'raffle':
+      return raffleContent(ctx, reward.raffle, reward.prize, reward.drawDate);
+  }
+}
+
+export function getRewardEmailTemplate(reward: RewardEmailData, context: EmailContext): EmailTemplate {
+  const ctx = createRenderContext(context);
+  const { subject, content } = rewardContent(ctx, reward);
+
+  return renderEmail(subject, layout(ctx, {
+    title: ctx.i18n.t('reward.title'),
+    heading: ctx.i18n.t('reward.heading'),
+    subheading: ctx.i18n.t('reward.subheading'),
+    content,
+  }));
 }
@@ -0,0 +1,57 @@
+/**
+ * Email Template Snapshots
+ *
+ * Renders every registered template for every locale (and reward emails for
+ * every reward type) with the preview sample data, and compares the subject,
+ * HTML and plain text against the files in __snapshots__. Review the diff and
+ * run `npm test -- -u` to accept an intended layout or copy change.
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { EMAIL_TYPES, SAMPLE_REWARDS, renderEmailPreview } from './preview';
+import { getTemplateNames } from './templates';
+import { SUPPORTED_LOCALES } from './i18n';
+import type { RewardType } from '../campaigns';
+
+beforeAll(() => {
+  vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://www.flowcrest.app');
+  vi.stubEnv('EMAIL_SUPPORT_URL', 'https://www.flowcrest.app/nodeprompter/help/help.html');
+  vi.stubEnv('EMAIL_BRAND_NAME', 'Flowcrest');
+});
+
+const REWARD_TYPES = Object.keys(SAMPLE_REWARDS) as RewardType[];
+
+describe.each(EMAIL_TYPES)('%s email', type => {
+  const variants = type === 'reward' ? REWARD_TYPES : ['stripe_promotion_code' as RewardType];
+
+  describe.each(getTemplateNames(type))('template %s', template => {
+    describe.each(SUPPORTED_LOCALES)('locale %s', locale => {
+      it.each(variants)('renders %s', async rewardType => {
+        const email = renderEmailPreview({ type, template, locale, reward: SAMPLE_REWARDS[rewardType], name: 'Alex' });
+        const file = `__snapshots__/${type}.${template}.${type === 'reward' ? `${rewardType}.` : ''}${locale}`;
+
+        expect(email.subject).toMatchSnapshot();
+        await expect(email.html).toMatchFileSnapshot(`${file}.html`);
+        await expect(email.text).toMatchFileSnapshot(`${file}.txt`);
+      });
+    });
+  });
+});
+
+describe('interpolated values', () => {
+  it('are HTML-escaped', () => {
+    const email = renderEmailPreview({
+      type: 'reward',
+      template: 'default',
+      locale: 'en',
+      reward: { type: 'raffle', raffle: '<script>alert(1)</script>', prize: 'Tom & Jerry "DVD"' },
+      name: '<img src=x onerror=alert(1)>',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).not.toContain('<img');
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(email.html).toContain('Tom &amp; Jerry &quot;DVD&quot;');
+    expect(email.text).toContain('Tom & Jerry "DVD"');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Email Template Registry
+ *
+ * Maps the template names campaigns refer to (see campaigns.settings.emailTemplates)
+ * to their template functions. Unknown names fall back to the default template.
+ *
+ * Templates take their own typed variables plus an EmailContext (recipient
+ * locale and name) and render through the shared layout in ./layout.ts.
+ */
+
+import { getRewardEmailTemplate } from './reward-template';
+import { getAbuseEmailTemplate } from './abuse-template';
+import { getReminderEmailTemplate } from './reminder-template';
+
+export const DEFAULT_TEMPLATE = 'default';
+
+const rewardTemplates: Record<string, typeof getRewardEmailTemplate> = {
+  [DEFAULT_TEMPLATE]: getRewardEmailTemplate,
+};
+
+const abuseTemplates: Record<string, typeof getAbuseEmailTemplate> = {
+  [DEFAULT_TEMPLATE]: getAbuseEmailTemplate,
+};
+
+const reminderTemplates: Record<string, typeof getReminderEmailTemplate> = {
+  [DEFAULT_TEMPLATE]: getReminderEmailTemplate,
+};
+
+export function getRewardTemplate(name: string = DEFAULT_TEMPLATE): typeof getRewardEmailTemplate {
+  if (!rewardTemplates[name]) {
+    console.warn(`[Email Templates] Unknown reward template "${name}", using default`);
+  }
+  return rewardTemplates[name] || rewardTemplates[DEFAULT_TEMPLATE];
+}
+
+export function getAbuseTemplate(name: string = DEFAULT_TEMPLATE): typeof getAbuseEmailTemplate {
+  if (!abuseTemplates[name]) {
+    console.warn(`[Email Templates] Unknown abuse template "${name}", using default`);
+  }
+  return abuseTemplates[name] || abuseTemplates[DEFAULT_TEMPLATE];
+}
+
+export function getReminderTemplate(name: string = DEFAULT_TEMPLATE): typeof getReminderEmailTemplate {
+  if (!reminderTemplates[name]) {
+    console.warn(`[Email Templates] Unknown reminder template "${name}", using default`);
+  }
+  return reminderTemplates[name] || reminderTemplates[DEFAULT_TEMPLATE];
+}
+
+/**
+ * Registered template names per email type, default first
+ */
+export function getTemplateNames(type: 'reward' | 'abuse' | 'reminder'): string[] {
+  const registry = { reward: rewardTemplates, abuse: abuseTemplates, reminder: reminderTemplates }[type];
+  return Object.keys(registry);
+}
@@ -0,0 +1,69 @@
+/**
+ * Plain-Text Generation
+ *
+ * Derives the text/plain part of an email from its HTML, so the two can't
+ * drift apart: links become "label (url)", list items get bullets or numbers,
+ * block elements become paragraphs, and entities are decoded.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(markup: string): string {
+  return markup.replace(/<[^>]*>/g, '');
+}
+
+/**
+ * Number the items of each ordered list and bullet those of unordered lists
+ */
+function markListItems(markup: string): string {
+  return markup
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let n = 0;
+      return `\n${items.replace(/<li\b[^>]*>/gi, () => `\n${++n}. `)}\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ');
+}
+
+export function htmlToText(markup: string): string {
+  let text = markup
+    .replace(/<head\b[\s\S]*?<\/head>/gi, '')
+    .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  text = text.replace(/<a\b[^>]*\bhref="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+    const url = decodeEntities(href);
+    const labelText = stripTags(label).trim();
+    return !labelText || labelText === url || url.startsWith('mailto:') ? labelText || url : `${labelText} (${url})`;
+  });
+
+  text = markListItems(text)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|table|ul|ol)>/gi, '\n\n')
+    .replace(/<\/tr>/gi, '\n');
+
+  text = decodeEntities(stripTags(text));
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\r\f\v\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,253 @@
+/**
+ * Submission Export
+ *
+ * Streams submissions as CSV or NDJSON with `answers` flattened to one column
+ * per question, in Tally `index` order. Export runs in two passes:
+ * 1. Scan the matching rows to discover questions and multi-select options
+ * 2. Stream the rows page by page against that fixed column set
+ *
+ * PII (email, name, promo code, email/phone answers) can be redacted for sharing
+ * outside the team.
+ */
+
+import { listSubmissionsForExport, Submission, SubmissionFilters } from './supabase';
+import { readAnswers, isAnswered, isChoiceType } from './answers';
+
+export type ExportFormat = 'csv' | 'ndjson';
+export type MultiSelectMode = 'join' | 'onehot';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    multiSelect: MultiSelectMode;
+    redactPii: boolean;
+    columns?: string[];
+}
+
+export interface ExportColumn {
+    id: string;
+    header: string;
+    pii: boolean;
+    read: (submission: Submission) => unknown;
+}
+
+interface QuestionInfo {
+    key: string;
+    title: string;
+    type: string;
+    index: number;
+    multiSelect: boolean;
+    options: Set<string>;
+}
+
+const PAGE_SIZE = 500;
+const MULTI_SELECT_SEPARATOR = '; ';
+const REDACTED = '[redacted]';
+
+// Answer types that identify the respondent
+const PII_ANSWER_TYPES = new Set(['INPUT_EMAIL', 'INPUT_PHONE_NUMBER']);
+
+const SUBMISSION_COLUMNS: ExportColumn[] = [
+    { id: 'id', header: 'id', pii: false, read: s => s.id },
+    { id: 'created_at', header: 'created_at', pii: false, read: s => s.created_at },
+    { id: 'tally_response_id', header: 'tally_response_id', pii: false, read: s => s.tally_response_id },
+    { id: 'form_id', header: 'form_id', pii: false, read: s => s.form_id },
+    { id: 'campaign_id', header: 'campaign_id', pii: false, read: s => s.campaign_id },
+    { id: 'email', header: 'email', pii: true, read: s => s.email },
+    { id: 'email_canonical', header: 'email_canonical', pii: true, read: s => s.email_canonical },
+    { id: 'respondent_name', header: 'respondent_name', pii: true, read: s => s.respondent_name },
+    { id: 'locale', header: 'locale', pii: false, read: s => s.locale },
+    { id: 'classification', header: 'classification', pii: false, read: s => s.classification },
+    { id: 'classification_reason', header: 'classification_reason', pii: false, read: s => s.classification_reason },
+    { id: 'bot_score', header: 'bot_score', pii: false, read: s => s.bot_score },
+    { id: 'submission_time_seconds', header: 'submission_time_seconds', pii: false, read: s => s.submission_time_seconds },
+    { id: 'reward_status', header: 'reward_status', pii: false, read: s => s.reward_status },
+    { id: 'reward_type', header: 'reward_type', pii: false, read: s => s.reward_type },
+    { id: 'promo_code', header: 'promo_code', pii: true, read: s => s.promo_code },
+    { id: 'reward_expires_at', header: 'reward_expires_at', pii: false, read: s => s.reward_expires_at },
+    { id: 'reward_redeemed_at', header: 'reward_redeemed_at', pii: false, read: s => s.reward_redeemed_at },
+    { id: 'reward_paid_at', header: 'reward_paid_at', pii: false, read: s => s.reward_paid_at },
+    { id: 'reward_paid_amount', header: 'reward_paid_amount', pii: false, read: s => s.reward_paid_amount },
+    { id: 'reward_paid_currency', header: 'reward_paid_currency', pii: false, read: s => s.reward_paid_currency },
+    { id: 'email_sent', header: 'email_sent', pii: false, read: s => s.email_sent },
+    { id: 'email_delivery_status', header: 'email_delivery_status', pii: false, read: s => s.email_delivery_status },
+];
+
+function answerValue(submission: Submission, key: string): unknown {
+    return readAnswers(submission.answers).find(answer => answer.key === key)?.value;
+}
+
+/**
+ * First pass: discover the questions (and multi-select options) present in the export
+ */
+async function scanQuestions(filters: SubmissionFilters): Promise<QuestionInfo[]> {
+    const questions = new Map<string, QuestionInfo>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const rows = await listSubmissionsForExport(filters, { limit: PAGE_SIZE, offset });
+
+        for (const row of rows) {
+            for (const answer of readAnswers(row.answers)) {
+                let question = questions.get(answer.key);
+                if (!question) {
+                    question = {
+                        key: answer.key,
+                        title: answer.title,
+                        type: answer.type,
+                        index: answer.index,
+                        multiSelect: false,
+                        options: new Set(),
+                    };
+                    questions.set(answer.key, question);
+                }
+                question.index = Math.min(question.index, answer.index);
+
+                // Single selections are stored as a plain string, so collect options
+                // from every answer but only treat the question as multi-select once
+                // an array value shows up
+                if (Array.isArray(answer.value)) {
+                    question.multiSelect = true;
+                    answer.value.forEach(option => question!.options.add(String(option)));
+                } else if (isChoiceType(question.type) && isAnswered(answer.value)) {
+                    question.options.add(String(answer.value));
+                }
+            }
+        }
+
+        if (rows.length < PAGE_SIZE) break;
+    }
+
+    return Array.from(questions.values()).sort((a, b) => a.index - b.index);
+}
+
+function questionColumns(questions: QuestionInfo[], multiSelect: MultiSelectMode): ExportColumn[] {
+    const titleCounts = new Map<string, number>();
+    questions.forEach(q => titleCounts.set(q.title, (titleCounts.get(q.title) ?? 0) + 1));
+
+    return questions.flatMap(question => {
+        // Repeated titles (e.g. two "Other" fields) get their key appended
+        const header = titleCounts.get(question.title)! > 1 ? `${question.title} (${question.key})` : question.title;
+        const pii = PII_ANSWER_TYPES.has(question.type);
+
+        if (question.multiSelect && multiSelect === 'onehot') {
+            return Array.from(question.options, option => ({
+                id: question.key,
+                header: `${header}: ${option}`,
+                pii,
+                read: (s: Submission) => {
+                    const value = answerValue(s, question.key);
+                    if (!isAnswered(value)) return null;
+                    const selected = Array.isArray(value) ? value.map(String) : [String(value)];
+                    return selected.includes(option) ? 1 : 0;
+                },
+            }));
+        }
+
+        return [{
+            id: question.key,
+            header,
+            pii,
+            read: (s: Submission) => {
+                const value = answerValue(s, question.key);
+                return Array.isArray(value) ? value.join(MULTI_SELECT_SEPARATOR) : value;
+            },
+        }];
+    });
+}
+
+/**
+ * Build the export columns for the filtered submissions
+ *
+ * `options.columns` selects submission columns by name and questions by Tally
+ * field key (one-hot questions expand to all their option columns).
+ *
+ * @returns The selected columns, and any requested ids that matched nothing
+ */
+export async function buildExportColumns(
+    filters: SubmissionFilters,
+    options: ExportOptions
+): Promise<{ columns: ExportColumn[]; unknown: string[] }> {
+    const questions = await scanQuestions(filters);
+    const all = [...SUBMISSION_COLUMNS, ...questionColumns(questions, options.multiSelect)];
+
+    if (!options.columns || options.columns.length === 0) {
+        return { columns: all, unknown: [] };
+    }
+
+    const requested = new Set(options.columns);
+    const known = new Set([...SUBMISSION_COLUMNS.map(c => c.id), ...questions.map(q => q.key)]);
+
+    return {
+        // Keep the canonical order rather than the order requested
+        columns: all.filter(c => requested.has(c.id)),
+        unknown: options.columns.filter(id => !known.has(id)),
+    };
+}
+
+function cellValue(column: ExportColumn, submission: Submission, redactPii: boolean): unknown {
+    const value = column.read(submission);
+    if (redactPii && column.pii && value !== null && value !== undefined && value !== '') {
+        return REDACTED;
+    }
+    return value ?? null;
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    // Neutralise spreadsheet formulas in free-text answers
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !Number.isFinite(Number(text))) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(columns: ExportColumn[], submission: Submission, options: ExportOptions): string {
+    if (options.format === 'ndjson') {
+        const record: Record<string, unknown> = {};
+        columns.forEach(column => {
+            record[column.header] = cellValue(column, submission, options.redactPii);
+        });
+        return `${JSON.stringify(record)}\n`;
+    }
+
+    return `${columns.map(column => csvCell(cellValue(column, submission, options.redactPii))).join(',')}\r\n`;
+}
+
+/**
+ * Second pass: stream the filtered submissions, one page per pull
+ */
+export function streamSubmissions(
+    filters: SubmissionFilters,
+    columns: ExportColumn[],
+    options: ExportOptions
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let offset = 0;
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (options.format === 'csv') {
+                controller.enqueue(encoder.encode(`${columns.map(c => csvCell(c.header)).join(',')}\r\n`));
+            }
+        },
+        async pull(controller) {
+            try {
+                const rows = await listSubmissionsForExport(filters, { limit: PAGE_SIZE, offset });
+                offset += rows.length;
+
+                if (rows.length > 0) {
+                    controller.enqueue(encoder.encode(rows.map(row => formatRow(columns, row, options)).join('')));
+                }
+                if (rows.length < PAGE_SIZE) {
+                    controller.close();
+                }
+            } catch (error) {
+                console.error('[Export] Error streaming submissions:', error);
+                controller.error(error);
+            }
+        },
+    });
+}
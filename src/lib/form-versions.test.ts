@@ -0,0 +1,87 @@
+/**
+ * Form Version Tests
+ *
+ * Definitions extracted from the fixture Tally response: hashing, comparing
+ * edited forms, and checking attention-check rules against them.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { compareFormDefinitions, extractFormDefinition, hashFormDefinition, FormDefinition } from './form-versions';
+import { checkAttentionRules, getAttentionConfig } from './attention-checks';
+import { parseTallyPayload, TallyWebhookPayload } from './tally-payload';
+import tallyFormResponse from '../test/fixtures/tally-form-response.json';
+
+const ATTENTION_LABEL = 'have you been paying attention';
+
+function fixtureDefinition(): FormDefinition {
+    const result = parseTallyPayload(structuredClone(tallyFormResponse));
+    return extractFormDefinition((result as { payload: TallyWebhookPayload }).payload.data.fields);
+}
+
+describe('extractFormDefinition', () => {
+    it('keeps the structure without the answers', () => {
+        const definition = fixtureDefinition();
+
+        expect(definition.fields).toHaveLength(tallyFormResponse.data.fields.length);
+        expect(definition.fields[0]).toEqual({
+            key: 'question_K646qD',
+            title: tallyFormResponse.data.fields[0].label,
+            type: 'MULTIPLE_CHOICE',
+            options: tallyFormResponse.data.fields[0].options!.map(o => ({ id: o.id, text: o.text })),
+        });
+        expect(JSON.stringify(definition)).not.toContain('respondent@example.com');
+    });
+
+    it('hashes the same structure the same way regardless of the answers', () => {
+        const other = structuredClone(tallyFormResponse);
+        other.data.fields[0].value = [other.data.fields[0].options![1].id];
+        const result = parseTallyPayload(other) as { payload: TallyWebhookPayload };
+
+        expect(hashFormDefinition(extractFormDefinition(result.payload.data.fields)))
+            .toBe(hashFormDefinition(fixtureDefinition()));
+    });
+});
+
+describe('compareFormDefinitions', () => {
+    it('lists added, removed and changed questions', () => {
+        const previous = fixtureDefinition();
+        const next = structuredClone(previous);
+        next.fields[0].options![0].text = 'Reworded';
+        next.fields.splice(1, 1);
+        next.fields.push({ key: 'question_new', title: 'New', type: 'TEXTAREA' });
+
+        expect(compareFormDefinitions(previous, next)).toEqual({
+            added: ['question_new'],
+            removed: ['question_LbjbQJ'],
+            changed: ['question_K646qD'],
+        });
+        expect(hashFormDefinition(next)).not.toBe(hashFormDefinition(previous));
+    });
+});
+
+describe('checkAttentionRules', () => {
+    const config = getAttentionConfig('OD7dp7');
+
+    it('accepts the fixture form', () => {
+        expect(checkAttentionRules(fixtureDefinition().fields, config)).toEqual([]);
+    });
+
+    it('reports a rule whose expected option is no longer offered', () => {
+        const definition = fixtureDefinition();
+        definition.fields
+            .filter(f => f.title.toLowerCase().includes(ATTENTION_LABEL))
+            .forEach(f => { f.options = f.options!.filter(o => o.text !== 'Yes'); });
+
+        expect(checkAttentionRules(definition.fields, config)).toEqual([
+            expect.objectContaining({ check: 'paying_attention', problem: 'options_missing' }),
+        ]);
+    });
+
+    it('reports a rule whose question is gone', () => {
+        const fields = fixtureDefinition().fields.filter(f => !f.title.toLowerCase().includes(ATTENTION_LABEL));
+
+        expect(checkAttentionRules(fields, config)).toEqual([
+            { check: 'paying_attention', problem: 'field_missing', message: `No question matches label containing "${ATTENTION_LABEL}"` },
+        ]);
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * Form Versions
+ *
+ * Captures the structure of a Tally form (field keys, titles, types and options)
+ * as seen in each webhook. Identical structures share one form_versions row,
+ * found by content hash, and each submission references the version it was
+ * answered against, so:
+ * - Analytics can read labels and option lists per version across form edits
+ * - A new version is compared with the previous one and with the form's
+ *   attention-check rules; an edit that breaks a rule is logged as an ALERT
+ */
+
+import { createHash } from 'crypto';
+import { findOrCreateFormVersion, listFormVersions, FormVersion } from './supabase';
+import { checkAttentionRules, AttentionRuleIssue, FormAttentionConfig } from './attention-checks';
+import type { TallyField, TallyFieldOption } from './tally-payload';
+
+export interface FormOptionDefinition {
+    id: string;
+    text: string;
+}
+
+export interface FormFieldDefinition {
+    key: string;
+    title: string;
+    type: string;
+    options?: FormOptionDefinition[];
+    // MATRIX only
+    rows?: FormOptionDefinition[];
+    columns?: FormOptionDefinition[];
+}
+
+export interface FormDefinition {
+    fields: FormFieldDefinition[];
+}
+
+/**
+ * Field keys added, removed, or with a changed title, type or options
+ */
+export interface FormChanges {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface FormVersionSummary {
+    id: string;
+    formName: string | null;
+    contentHash: string;
+    firstSeenAt: string;
+    fieldCount: number;
+    // Compared with the version before it (null for the first version)
+    changes: FormChanges | null;
+    attentionIssues: AttentionRuleIssue[];
+}
+
+function optionDefinitions(options: TallyFieldOption[]): FormOptionDefinition[] {
+    return options.map(option => ({ id: option.id, text: option.text }));
+}
+
+/**
+ * The form structure of a validated payload, without the respondent's values
+ */
+export function extractFormDefinition(fields: TallyField[]): FormDefinition {
+    return {
+        fields: fields.map(field => ({
+            key: field.key,
+            title: field.label,
+            type: field.type,
+            ...(field.options && { options: optionDefinitions(field.options) }),
+            ...(field.rows && { rows: optionDefinitions(field.rows) }),
+            ...(field.columns && { columns: optionDefinitions(field.columns) }),
+        })),
+    };
+}
+
+/**
+ * Stable hash of a definition (field and option order are part of the structure)
+ */
+export function hashFormDefinition(definition: FormDefinition): string {
+    return createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+}
+
+export function compareFormDefinitions(previous: FormDefinition, next: FormDefinition): FormChanges {
+    const before = new Map(previous.fields.map(field => [field.key, JSON.stringify(field)]));
+    const after = new Map(next.fields.map(field => [field.key, JSON.stringify(field)]));
+
+    return {
+        added: next.fields.filter(field => !before.has(field.key)).map(field => field.key),
+        removed: previous.fields.filter(field => !after.has(field.key)).map(field => field.key),
+        changed: next.fields
+            .filter(field => before.has(field.key) && before.get(field.key) !== after.get(field.key))
+            .map(field => field.key),
+    };
+}
+
+function describeChanges(changes: FormChanges): string {
+    return `${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed` +
+        (changes.changed.length > 0 ? ` (${changes.changed.join(', ')})` : '');
+}
+
+/**
+ * Store (or find) the version of the form a payload was answered against.
+ * A version seen for the first time is compared with the previous one and
+ * checked against the form's attention-check rules.
+ */
+export async function recordFormVersion(
+    formId: string,
+    formName: string,
+    fields: TallyField[],
+    attentionChecks: FormAttentionConfig
+): Promise<FormVersion> {
+    const definition = extractFormDefinition(fields);
+    const { version, created } = await findOrCreateFormVersion({
+        form_id: formId,
+        content_hash: hashFormDefinition(definition),
+        form_name: formName,
+        definition,
+    });
+
+    if (!created) {
+        return version;
+    }
+
+    const previous = (await listFormVersions(formId)).filter(v => v.id !== version.id).pop();
+    if (previous) {
+        console.log(`[Form Versions] Form ${formId} changed, new version ${version.id}:`, describeChanges(compareFormDefinitions(previous.definition, definition)));
+    } else {
+        console.log(`[Form Versions] First version ${version.id} recorded for form ${formId}`);
+    }
+
+    const issues = checkAttentionRules(definition.fields, attentionChecks);
+    if (issues.length > 0) {
+        console.error(
+            `[Form Versions] ALERT: Form ${formId} version ${version.id} breaks attention checks -`,
+            issues.map(issue => `${issue.check}: ${issue.message}`).join('; ')
+        );
+    }
+
+    return version;
+}
+
+/**
+ * All versions of a form, oldest first, with their changes and their issues
+ * against the form's current attention-check rules
+ */
+export async function summarizeFormVersions(
+    formId: string,
+    attentionChecks: FormAttentionConfig
+): Promise<FormVersionSummary[]> {
+    const versions = await listFormVersions(formId);
+
+    return versions.map((version, i) => ({
+        id: version.id,
+        formName: version.form_name,
+        contentHash: version.content_hash,
+        firstSeenAt: version.created_at,
+        fieldCount: version.definition.fields.length,
+        changes: i > 0 ? compareFormDefinitions(versions[i - 1].definition, version.definition) : null,
+        attentionIssues: checkAttentionRules(version.definition.fields, attentionChecks),
+    }));
+}
@@ -0,0 +1,101 @@
+/**
+ * Mailer
+ *
+ * Renders and sends transactional emails through the configured transport
+ * (see src/lib/email-transports):
+ * - Reward emails (promotion codes, credit, pool codes, raffle entries)
+ * - Abuse notification emails
+ * - Reminders for unredeemed promotion codes
+ * - Template previews sent to test addresses
+ */
+
+import { getRewardTemplate, getAbuseTemplate, getReminderTemplate } from './emails/templates';
+import type { ReminderEmailData } from './emails/reminder-template';
+import type { EmailContext, EmailTemplate } from './emails/layout';
+import type { RewardEmailData } from './reward-providers/types';
+import { getEmailTransport } from './email-transports';
+
+function getFromEmail(): string {
+    if (process.env.EMAIL_FROM) return process.env.EMAIL_FROM;
+    if (process.env.MAILGUN_FROM_EMAIL) return process.env.MAILGUN_FROM_EMAIL;
+    if (process.env.MAILGUN_DOMAIN) return `noreply@${process.env.MAILGUN_DOMAIN}`;
+    throw new Error('Missing EMAIL_FROM environment variable');
+}
+
+export interface EmailResult {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+}
+
+/**
+ * Send a rendered email. Transport and configuration errors are returned as a
+ * failed result, so callers (the outbox) can retry them.
+ */
+async function sendEmail(email: string, template: EmailTemplate, description: string): Promise<EmailResult> {
+    try {
+        const transport = getEmailTransport();
+        const messageId = await transport.send({
+            from: getFromEmail(),
+            to: email,
+            subject: template.subject,
+            html: template.html,
+            text: template.text,
+        });
+
+        console.log(`${description} sent to ${email} via ${transport.name}, messageId: ${messageId}`);
+
+        return {
+            success: true,
+            messageId,
+        };
+    } catch (error) {
+        console.error(`Error sending ${description.toLowerCase()}:`, error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        };
+    }
+}
+
+/**
+ * Send reward email (promotion code, credit, pool code or raffle entry) to valid user
+ */
+export async function sendRewardEmail(
+    email: string,
+    reward: RewardEmailData,
+    context: EmailContext,
+    templateName?: string
+): Promise<EmailResult> {
+    return sendEmail(email, getRewardTemplate(templateName)(reward, context), 'Reward email');
+}
+
+/**
+ * Send abuse notification email to user who failed attention check
+ */
+export async function sendAbuseEmail(
+    email: string,
+    context: EmailContext,
+    templateName?: string
+): Promise<EmailResult> {
+    return sendEmail(email, getAbuseTemplate(templateName)(context), 'Abuse notification');
+}
+
+/**
+ * Send reminder email for a promotion code that has not been redeemed yet
+ */
+export async function sendReminderEmail(
+    email: string,
+    reminder: ReminderEmailData,
+    context: EmailContext,
+    templateName?: string
+): Promise<EmailResult> {
+    return sendEmail(email, getReminderTemplate(templateName)(reminder, context), `Reminder ${reminder.reminderNumber}`);
+}
+
+/**
+ * Send an already rendered email as a test (admin preview page)
+ */
+export async function sendPreviewEmail(email: string, template: EmailTemplate): Promise<EmailResult> {
+    return sendEmail(email, { ...template, subject: `[Test] ${template.subject}` }, 'Test email');
+}
@@ -0,0 +1,300 @@
+/**
+ * Email Outbox
+ *
+ * Persists every outbound email before sending it, so a failed send can be
+ * retried later instead of being lost:
+ * - Immediate delivery is attempted right after enqueueing
+ * - Failures are retried by the cron sweeper with exponential backoff
+ * - After max_attempts the entry is dead-lettered for manual inspection
+ * - Reminders are cancelled instead of sent once the code is redeemed or expired
+ * - Entries to suppressed addresses (hard bounces, complaints) are cancelled
+ */
+
+import { sendRewardEmail, sendAbuseEmail, sendReminderEmail, EmailResult } from './mailer';
+import {
+    enqueueOutboxEmail,
+    claimOutboxEmails,
+    markOutboxSent,
+    markOutboxFailed,
+    markOutboxCancelled,
+    getSubmissionById,
+    markRewardEmailSent,
+    markAbuseEmailSent,
+    getEmailSuppression,
+    updateSubmissionEmail,
+    EmailOutboxEntry,
+    Submission,
+} from './supabase';
+import { resolveCampaignForSubmission } from './campaigns';
+import { canonicalizeEmail } from './email-normalization';
+import { getIssuedReward, IssuedReward, RewardEmailData } from './reward-providers';
+import type { ReminderEmailData } from './emails/reminder-template';
+import type { EmailContext } from './emails/layout';
+import { DEFAULT_LOCALE, resolveLocale } from './emails/i18n';
+
+// Backoff: 1 min, 2 min, 4 min, ... capped at 6 hours
+const BASE_RETRY_DELAY_SECONDS = 60;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+export interface DeliveryResult {
+    entryId: string;
+    success: boolean;
+    messageId?: string;
+    error?: string;
+    deadLettered?: boolean;
+    cancelled?: boolean;
+}
+
+/**
+ * The submission fields an email is addressed and localized with
+ */
+export type EmailRecipient = Pick<Submission, 'email' | 'locale' | 'respondent_name'> & { id: string };
+
+function getNextAttemptAt(attempts: number): Date {
+    const delaySeconds = Math.min(
+        BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0),
+        MAX_RETRY_DELAY_SECONDS
+    );
+    return new Date(Date.now() + delaySeconds * 1000);
+}
+
+/**
+ * Locale and name stored with every entry, so retries render the email the same way
+ */
+function recipientPayload(submission: EmailRecipient): Record<string, unknown> {
+    return { locale: submission.locale ?? undefined, name: submission.respondent_name ?? undefined };
+}
+
+/**
+ * Rendering context from an entry's payload. Entries queued before emails were
+ * localized carry neither and are sent in the default locale.
+ */
+function emailContext(payload: Record<string, unknown>): EmailContext {
+    return {
+        locale: resolveLocale(payload.locale) ?? DEFAULT_LOCALE,
+        name: typeof payload.name === 'string' ? payload.name : undefined,
+    };
+}
+
+/**
+ * Queue the reward email for a submission
+ */
+export async function queueRewardEmail(
+    submission: EmailRecipient,
+    reward: IssuedReward,
+    template?: string,
+    dedupeSuffix?: string
+): Promise<EmailOutboxEntry> {
+    return enqueueOutboxEmail({
+        submission_id: submission.id,
+        // One reward email per issued reward, so a reissued reward gets its own email
+        dedupe_key: `reward:${submission.id}:${reward.code ?? reward.reference}${dedupeSuffix ? `:${dedupeSuffix}` : ''}`,
+        email_type: 'reward',
+        recipient: submission.email,
+        payload: { reward: reward.emailData, template, ...recipientPayload(submission) },
+    });
+}
+
+/**
+ * Queue a reminder for an unredeemed promotion code. Keyed by code and reminder
+ * number, so each reminder is sent at most once per code.
+ */
+export async function queueReminderEmail(
+    submission: EmailRecipient,
+    reminder: ReminderEmailData,
+    template?: string
+): Promise<EmailOutboxEntry> {
+    return enqueueOutboxEmail({
+        submission_id: submission.id,
+        dedupe_key: `reminder:${submission.id}:${reminder.code}:${reminder.reminderNumber}`,
+        email_type: 'reminder',
+        recipient: submission.email,
+        payload: { reminder, template, ...recipientPayload(submission) },
+    });
+}
+
+/**
+ * Why a queued reminder should no longer be sent, if it shouldn't
+ * (retries can run hours after queueing, by which time the code may be used)
+ */
+async function staleReminderReason(entry: EmailOutboxEntry): Promise<string | null> {
+    if (!entry.submission_id) return null;
+
+    const submission = await getSubmissionById(entry.submission_id);
+    const reminder = entry.payload.reminder as ReminderEmailData;
+
+    if (!submission || submission.classification !== 'valid') return 'Submission is no longer valid';
+    if (submission.promo_code !== reminder.code) return 'Reward was reissued';
+    if (submission.reward_redeemed_at) return 'Code already redeemed';
+    if (submission.reward_expires_at && new Date(submission.reward_expires_at) <= new Date()) return 'Code expired';
+    return null;
+}
+
+/**
+ * Reward data from an entry's payload. Entries queued before reward providers
+ * existed only carry the promo code.
+ */
+function rewardEmailData(payload: Record<string, unknown>): RewardEmailData {
+    return (payload.reward as RewardEmailData | undefined) ??
+        { type: 'stripe_promotion_code', code: String(payload.promoCode) };
+}
+
+/**
+ * Queue the abuse notification email for a submission
+ */
+export async function queueAbuseEmail(
+    submission: EmailRecipient,
+    template?: string,
+    dedupeSuffix?: string
+): Promise<EmailOutboxEntry> {
+    return enqueueOutboxEmail({
+        submission_id: submission.id,
+        dedupe_key: `abuse:${submission.id}${dedupeSuffix ? `:${dedupeSuffix}` : ''}`,
+        email_type: 'abuse',
+        recipient: submission.email,
+        payload: { template, ...recipientPayload(submission) },
+    });
+}
+
+/**
+ * Queue and send a fresh copy of the email a submission is owed
+ * (reward email for rewarded submissions, abuse email for failed/rejected ones),
+ * optionally to a corrected address after a bounce. A corrected address is saved
+ * on the submission first, so reminders and later resends use it too.
+ */
+export async function resendSubmissionEmail(
+    submission: Submission & { id: string },
+    recipient?: string
+): Promise<DeliveryResult | null> {
+    const campaign = await resolveCampaignForSubmission(submission);
+    const resendKey = `resend-${Date.now()}`;
+
+    if (recipient && recipient !== submission.email) {
+        await updateSubmissionEmail(submission.id, recipient, canonicalizeEmail(recipient));
+        console.log(`[Outbox] Corrected email of submission ${submission.id} to ${recipient}`);
+    }
+    const to = { ...submission, email: recipient ?? submission.email };
+
+    const reward = getIssuedReward(submission);
+
+    let entry: EmailOutboxEntry;
+    if (submission.classification === 'valid' && reward) {
+        entry = await queueRewardEmail(to, reward, campaign.emailTemplates.reward, resendKey);
+    } else if (submission.classification === 'attention_fail' || submission.classification === 'rejected') {
+        entry = await queueAbuseEmail(to, campaign.emailTemplates.abuse, resendKey);
+    } else {
+        throw new Error(`No email to resend for a ${submission.classification} submission without a reward`);
+    }
+
+    return deliverOutboxEmail(entry);
+}
+
+/**
+ * Send a claimed entry and record the outcome on the outbox and submission
+ */
+async function deliverClaimedEntry(entry: EmailOutboxEntry): Promise<DeliveryResult> {
+    if (entry.email_type === 'reminder') {
+        const staleReason = await staleReminderReason(entry);
+        if (staleReason) {
+            await markOutboxCancelled(entry.id, staleReason);
+            console.log(`[Outbox] Cancelled reminder ${entry.id}:`, staleReason);
+            return { entryId: entry.id, success: false, error: staleReason, cancelled: true };
+        }
+    }
+
+    const suppression = await getEmailSuppression(entry.recipient);
+    if (suppression) {
+        const reason = `Recipient suppressed (${suppression.reason})`;
+        await markOutboxCancelled(entry.id, reason);
+        console.log(`[Outbox] Cancelled ${entry.email_type} email ${entry.id}:`, reason);
+        return { entryId: entry.id, success: false, error: reason, cancelled: true };
+    }
+
+    let result: EmailResult;
+    try {
+        const template = entry.payload.template as string | undefined;
+        const context = emailContext(entry.payload);
+        switch (entry.email_type) {
+            case 'reward':
+                result = await sendRewardEmail(entry.recipient, rewardEmailData(entry.payload), context, template);
+                break;
+            case 'abuse':
+                result = await sendAbuseEmail(entry.recipient, context, template);
+                break;
+            case 'reminder':
+                result = await sendReminderEmail(entry.recipient, entry.payload.reminder as ReminderEmailData, context, template);
+                break;
+        }
+    } catch (error) {
+        // e.g. missing mail configuration - treat like a failed send so it is retried
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    if (!result.success) {
+        const reason = result.error || 'Unknown error';
+        const deadLettered = entry.attempts >= entry.max_attempts;
+        await markOutboxFailed(entry.id, reason, deadLettered ? null : getNextAttemptAt(entry.attempts));
+
+        if (deadLettered) {
+            console.error(`[Outbox] Dead-lettered ${entry.email_type} email ${entry.id} after ${entry.attempts} attempts:`, reason);
+        } else {
+            console.warn(`[Outbox] ${entry.email_type} email ${entry.id} failed (attempt ${entry.attempts}/${entry.max_attempts}):`, reason);
+        }
+
+        return { entryId: entry.id, success: false, error: reason, deadLettered };
+    }
+
+    await markOutboxSent(entry.id, result.messageId);
+
+    // Reminders are counted on the submission when queued (see reminders.ts)
+    if (entry.submission_id) {
+        if (entry.email_type === 'reward') {
+            await markRewardEmailSent(entry.submission_id, result.messageId);
+        } else if (entry.email_type === 'abuse') {
+            await markAbuseEmailSent(entry.submission_id, result.messageId);
+        }
+    }
+
+    return { entryId: entry.id, success: true, messageId: result.messageId };
+}
+
+/**
+ * Try to deliver a queued entry right away.
+ * Returns null if the entry is not claimable (already sent, in flight, or waiting for backoff).
+ */
+export async function deliverOutboxEmail(entry: EmailOutboxEntry): Promise<DeliveryResult | null> {
+    if (entry.status === 'sent') {
+        return { entryId: entry.id, success: true, messageId: entry.message_id ?? undefined };
+    }
+
+    const [claimed] = await claimOutboxEmails(1, entry.id);
+    if (!claimed) {
+        return null;
+    }
+
+    return deliverClaimedEntry(claimed);
+}
+
+/**
+ * Deliver up to `limit` due entries (pending, failed with elapsed backoff, or stale in-flight)
+ */
+export async function drainOutbox(limit: number): Promise<DeliveryResult[]> {
+    const entries = await claimOutboxEmails(limit);
+    const results: DeliveryResult[] = [];
+
+    // Sequential to stay well under provider rate limits
+    for (const entry of entries) {
+        try {
+            results.push(await deliverClaimedEntry(entry));
+        } catch (error) {
+            console.error('[Outbox] Error delivering entry', entry.id, error);
+            results.push({
+                entryId: entry.id,
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
+    return results;
+}
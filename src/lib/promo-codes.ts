@@ -0,0 +1,96 @@
+/**
+ * Promo Code Generation
+ *
+ * Codes are drawn from a CSPRNG over an alphabet without look-alike characters
+ * (no O/0, I/1), e.g. SURVEY-7KQ2XH9M. Prefix and length are configurable per
+ * campaign (settings.reward.codeFormat), optionally with a trailing check
+ * character (Luhn mod N) so support can spot mistyped codes.
+ */
+
+import { randomInt } from 'crypto';
+
+export const PROMO_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface PromoCodeFormat {
+    prefix: string;
+    length: number;
+    checkDigit: boolean;
+}
+
+export const DEFAULT_PROMO_CODE_FORMAT: PromoCodeFormat = {
+    prefix: 'SURVEY',
+    length: 8,
+    checkDigit: false,
+};
+
+const MIN_LENGTH = 6;
+const MAX_LENGTH = 32;
+const PREFIX_PATTERN = /^[A-Z0-9]{0,20}$/;
+
+/**
+ * Merge a campaign's code format over the defaults and validate it
+ */
+export function resolvePromoCodeFormat(format?: Partial<PromoCodeFormat>): PromoCodeFormat {
+    const resolved = { ...DEFAULT_PROMO_CODE_FORMAT, ...format };
+
+    if (!PREFIX_PATTERN.test(resolved.prefix)) {
+        throw new Error(`Invalid promo code prefix "${resolved.prefix}" (up to 20 uppercase letters or digits)`);
+    }
+    if (!Number.isInteger(resolved.length) || resolved.length < MIN_LENGTH || resolved.length > MAX_LENGTH) {
+        throw new Error(`Invalid promo code length ${resolved.length} (${MIN_LENGTH}-${MAX_LENGTH})`);
+    }
+
+    return resolved;
+}
+
+/**
+ * Luhn mod N check character over the code alphabet
+ */
+function computeCheckCharacter(body: string): string {
+    const n = PROMO_CODE_ALPHABET.length;
+    let sum = 0;
+    let double = true;
+
+    for (let i = body.length - 1; i >= 0; i--) {
+        let value = PROMO_CODE_ALPHABET.indexOf(body[i]) * (double ? 2 : 1);
+        value = Math.floor(value / n) + (value % n);
+        sum += value;
+        double = !double;
+    }
+
+    return PROMO_CODE_ALPHABET[(n - (sum % n)) % n];
+}
+
+/**
+ * Generate a candidate promotion code string
+ *
+ * @param pick - Source of alphabet indexes; defaults to the CSPRNG (previews pass a fixed sequence)
+ */
+export function generatePromoCode(
+    format: PromoCodeFormat = DEFAULT_PROMO_CODE_FORMAT,
+    pick: (alphabetSize: number, position: number) => number = size => randomInt(size)
+): string {
+    const bodyLength = format.checkDigit ? format.length - 1 : format.length;
+
+    let body = '';
+    for (let i = 0; i < bodyLength; i++) {
+        body += PROMO_CODE_ALPHABET[pick(PROMO_CODE_ALPHABET.length, i)];
+    }
+
+    if (format.checkDigit) {
+        body += computeCheckCharacter(body);
+    }
+
+    return format.prefix ? `${format.prefix}-${body}` : body;
+}
+
+/**
+ * Check a code's trailing check character (for codes generated with checkDigit)
+ */
+export function hasValidCheckDigit(code: string): boolean {
+    const body = code.slice(code.lastIndexOf('-') + 1).toUpperCase();
+    if (body.length < 2 || body.split('').some(c => !PROMO_CODE_ALPHABET.includes(c))) {
+        return false;
+    }
+    return computeCheckCharacter(body.slice(0, -1)) === body[body.length - 1];
+}
@@ -0,0 +1,147 @@
+/**
+ * Reward Reminders
+ *
+ * Nudges respondents whose promotion code is still unredeemed:
+ * - The first reminder goes out afterDays after the reward email,
+ *   then one every intervalDays, up to maxReminders (campaign settings)
+ * - Stops once the code is redeemed (Stripe webhook) or expired, and never
+ *   schedules a reminder that would arrive after the code expires
+ * - Each reminder is queued in the outbox under a key unique to the code and
+ *   reminder number, and counted on the submission, so nobody gets duplicates
+ *
+ * Only Stripe promotion codes are reminded about; other reward types have no
+ * redemption tracking to stop on.
+ */
+
+import { resolveCampaignForSubmission, ReminderSettings } from './campaigns';
+import { getIssuedReward, getRewardStatus } from './reward-providers';
+import { queueReminderEmail, deliverOutboxEmail } from './outbox';
+import {
+    findReminderCandidates,
+    scheduleRewardReminder,
+    recordRewardReminderQueued,
+    recordRewardRedemption,
+    Submission,
+} from './supabase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReminderRunSummary {
+    checked: number;
+    queued: number;
+    sent: number;
+    scheduled: number;
+    finished: number;
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * When reminder `reminderNumber` (1-based) is due. Later reminders count from
+ * when the previous one was queued, so a paused job doesn't send them back to back.
+ */
+function reminderDueAt(submission: Submission, settings: ReminderSettings, reminderNumber: number): Date {
+    if (reminderNumber === 1) {
+        return addDays(new Date(submission.reward_email_sent_at!), settings.afterDays);
+    }
+    return submission.reward_next_reminder_at ? new Date(submission.reward_next_reminder_at) : new Date();
+}
+
+/**
+ * Drop a reminder time that falls on or after the code's expiry
+ */
+function beforeExpiry(at: Date, expiresAt: string | null | undefined): Date | null {
+    return expiresAt && at >= new Date(expiresAt) ? null : at;
+}
+
+/**
+ * Check one candidate: finish, reschedule, or queue and send its next reminder
+ */
+async function processCandidate(
+    submission: Submission & { id: string },
+    summary: ReminderRunSummary
+): Promise<void> {
+    const reward = getIssuedReward(submission);
+    if (!reward || reward.type !== 'stripe_promotion_code' || !reward.code) {
+        await scheduleRewardReminder(submission.id, null);
+        summary.finished++;
+        return;
+    }
+
+    const campaign = await resolveCampaignForSubmission(submission);
+    const settings = campaign.reminders;
+    const reminderNumber = (submission.reward_reminders_sent ?? 0) + 1;
+
+    const dueAt = reminderNumber <= settings.maxReminders
+        ? beforeExpiry(reminderDueAt(submission, settings, reminderNumber), submission.reward_expires_at)
+        : null;
+
+    if (!dueAt) {
+        await scheduleRewardReminder(submission.id, null);
+        summary.finished++;
+        return;
+    }
+
+    if (dueAt > new Date()) {
+        await scheduleRewardReminder(submission.id, dueAt);
+        summary.scheduled++;
+        return;
+    }
+
+    // Codes redeemed before the Stripe webhook was set up (or whose event was
+    // missed) are only visible on the code itself
+    const status = await getRewardStatus(reward);
+    if (status.state !== 'issued') {
+        if (status.state === 'redeemed') {
+            await recordRewardRedemption(reward.reference, { redeemedAt: new Date().toISOString(), customerId: null });
+        }
+        await scheduleRewardReminder(submission.id, null);
+        summary.finished++;
+        return;
+    }
+
+    const entry = await queueReminderEmail(
+        submission,
+        { code: reward.code, expiresAt: reward.expiresAt, reminderNumber },
+        campaign.emailTemplates.reminder
+    );
+
+    const nextAt = reminderNumber < settings.maxReminders
+        ? beforeExpiry(addDays(new Date(), settings.intervalDays), submission.reward_expires_at)
+        : null;
+
+    if (!await recordRewardReminderQueued(submission.id, reminderNumber, nextAt)) {
+        console.log('[Reminders] Reminder', reminderNumber, 'for', submission.id, 'already handled by another run');
+        return;
+    }
+    summary.queued++;
+
+    // Failed sends stay in the outbox and are retried by the outbox sweeper
+    const delivery = await deliverOutboxEmail(entry);
+    if (delivery?.success) {
+        summary.sent++;
+    }
+}
+
+/**
+ * Process up to `limit` submissions due for a reminder check
+ */
+export async function runRewardReminders(limit: number): Promise<ReminderRunSummary> {
+    const candidates = await findReminderCandidates(limit);
+    const summary: ReminderRunSummary = { checked: candidates.length, queued: 0, sent: 0, scheduled: 0, finished: 0 };
+
+    // Sequential to stay well under provider rate limits
+    for (const candidate of candidates) {
+        if (!candidate.id) continue;
+
+        try {
+            await processCandidate({ ...candidate, id: candidate.id }, summary);
+        } catch (error) {
+            console.error('[Reminders] Error processing reminder for', candidate.id, error);
+        }
+    }
+
+    return summary;
+}
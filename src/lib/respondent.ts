@@ -0,0 +1,43 @@
+/**
+ * Respondent Profile
+ *
+ * Reads the respondent's preferred locale and name from a submission, so emails
+ * can be sent in their language and greet them by name. Both come from survey
+ * answers or Tally hidden fields (e.g. a `lang` URL parameter), matched by the
+ * campaign's respondentFields; the locale falls back to the campaign default.
+ */
+
+import type { RespondentFieldSettings, ResolvedCampaign } from './campaigns';
+import { resolveLocale, Locale } from './emails/i18n';
+import type { NormalizedAnswer } from './answers';
+
+export interface RespondentProfile {
+    locale: Locale;
+    name: string | null;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+function findAnswer(answers: NormalizedAnswer[], candidates: string[]): NormalizedAnswer | undefined {
+    const wanted = new Set(candidates.map(c => c.trim().toLowerCase()));
+
+    return answers.find(a =>
+        wanted.has(a.key.toLowerCase()) ||
+        (a.title && wanted.has(a.title.trim().toLowerCase()))
+    );
+}
+
+function extractName(answers: NormalizedAnswer[], settings: RespondentFieldSettings): string | null {
+    const value = findAnswer(answers, settings.name)?.value;
+    if (typeof value !== 'string') return null;
+
+    const name = value.trim().replace(/\s+/g, ' ');
+    return name ? name.slice(0, MAX_NAME_LENGTH) : null;
+}
+
+export function extractRespondentProfile(answers: NormalizedAnswer[], campaign: ResolvedCampaign): RespondentProfile {
+    return {
+        locale: resolveLocale(findAnswer(answers, campaign.respondentFields.locale)?.value) ?? campaign.defaultLocale,
+        name: extractName(answers, campaign.respondentFields),
+    };
+}
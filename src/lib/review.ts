@@ -0,0 +1,95 @@
+/**
+ * Manual Review
+ *
+ * Decisions on submissions held as needs_review:
+ * - Approve: reclassify as valid and run the normal reward lifecycle
+ * - Reject: reclassify as rejected, optionally sending the abuse email
+ * - Reclassify: set any classification from the admin dashboard
+ */
+
+import { resolveReview, updateSubmissionClassification, Submission, SubmissionClassification } from './supabase';
+import { processReward, RewardOutcome } from './rewards';
+import { queueAbuseEmail, deliverOutboxEmail, DeliveryResult } from './outbox';
+import { resolveCampaignForSubmission } from './campaigns';
+
+export interface ReviewDecision {
+    reviewedBy: string;
+    note?: string;
+}
+
+export interface ApproveResult {
+    submission: Submission;
+    reward: RewardOutcome;
+}
+
+export interface RejectResult {
+    submission: Submission;
+    abuseEmail: DeliveryResult | null;
+}
+
+/**
+ * Approve a held submission and issue its reward
+ *
+ * @returns null if the submission is not awaiting review
+ */
+export async function approveSubmission(
+    submissionId: string,
+    decision: ReviewDecision
+): Promise<ApproveResult | null> {
+    const submission = await resolveReview(submissionId, 'valid', decision);
+    if (!submission) {
+        return null;
+    }
+
+    console.log('[Review] Approved submission', submissionId, 'by', decision.reviewedBy);
+    const reward = await processReward(submissionId);
+
+    return { submission, reward };
+}
+
+/**
+ * Reject a held submission
+ *
+ * @returns null if the submission is not awaiting review
+ */
+export async function rejectSubmission(
+    submissionId: string,
+    decision: ReviewDecision,
+    sendAbuseEmail: boolean
+): Promise<RejectResult | null> {
+    const submission = await resolveReview(submissionId, 'rejected', decision);
+    if (!submission) {
+        return null;
+    }
+
+    console.log('[Review] Rejected submission', submissionId, 'by', decision.reviewedBy);
+
+    let abuseEmail: DeliveryResult | null = null;
+    if (sendAbuseEmail) {
+        const campaign = await resolveCampaignForSubmission(submission);
+        const entry = await queueAbuseEmail({ ...submission, id: submissionId }, campaign.emailTemplates.abuse);
+        abuseEmail = await deliverOutboxEmail(entry);
+    }
+
+    return { submission, abuseEmail };
+}
+
+/**
+ * Manually reclassify any submission. Moving it to valid runs the reward lifecycle;
+ * other classifications never send email on their own.
+ */
+export async function reclassifySubmission(
+    submissionId: string,
+    classification: SubmissionClassification,
+    decision: ReviewDecision
+): Promise<{ submission: Submission; reward: RewardOutcome | null } | null> {
+    const submission = await updateSubmissionClassification(submissionId, classification, decision);
+    if (!submission) {
+        return null;
+    }
+
+    console.log('[Review] Reclassified submission', submissionId, 'as', classification, 'by', decision.reviewedBy);
+
+    const reward = classification === 'valid' ? await processReward(submissionId) : null;
+    return { submission, reward };
+}
@@ -0,0 +1,38 @@
+/**
+ * Code Pool Reward
+ *
+ * Hands out codes from a pre-generated pool uploaded as CSV
+ * (see /api/admin/reward-pools/[pool]/codes). Each code is assigned to at most
+ * one submission; revoked codes are never handed out again.
+ */
+
+import { claimPoolCode, getPoolCode, revokePoolCode } from '../supabase';
+import { RewardProvider, SettingsFor } from './types';
+
+export const codePoolProvider: RewardProvider<SettingsFor<'code_pool'>> = {
+    type: 'code_pool',
+
+    async issue(submission, settings) {
+        const poolCode = await claimPoolCode(settings.pool, submission.id);
+        if (!poolCode) {
+            throw new Error(`Reward code pool "${settings.pool}" is exhausted`);
+        }
+
+        return {
+            type: 'code_pool',
+            reference: poolCode.id,
+            code: poolCode.code,
+            emailData: { type: 'code_pool', code: poolCode.code },
+        };
+    },
+
+    async revoke(reward) {
+        await revokePoolCode(reward.reference);
+    },
+
+    async status(reward) {
+        const poolCode = await getPoolCode(reward.reference);
+        if (!poolCode) return { state: 'unknown', detail: 'Pool code not found' };
+        return poolCode.revoked_at ? { state: 'revoked' } : { state: 'issued' };
+    },
+};
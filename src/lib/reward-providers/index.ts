@@ -0,0 +1,77 @@
+/**
+ * Reward Provider Registry
+ *
+ * Maps the reward type configured on a campaign (campaigns.settings.reward.type)
+ * to the provider that issues it:
+ * - stripe_promotion_code: one-time Stripe promotion code (default)
+ * - stripe_customer_credit: credit on the respondent's Stripe customer balance
+ * - code_pool: code drawn from a pre-generated pool uploaded as CSV
+ * - raffle: entry into a raffle
+ */
+
+import type { RewardSettings, RewardType } from '../campaigns';
+import type { Submission } from '../supabase';
+import { IssuedReward, IssuedRewardStatus, RewardEmailData, RewardProvider, SettingsFor } from './types';
+import { stripePromotionCodeProvider } from './stripe-promotion-code';
+import { stripeCustomerCreditProvider } from './stripe-customer-credit';
+import { codePoolProvider } from './code-pool';
+import { raffleProvider } from './raffle';
+
+export type { IssuedReward, IssuedRewardStatus, RewardEmailData, RewardProvider } from './types';
+
+const providers: { [T in RewardType]: RewardProvider<SettingsFor<T>> } = {
+    stripe_promotion_code: stripePromotionCodeProvider,
+    stripe_customer_credit: stripeCustomerCreditProvider,
+    code_pool: codePoolProvider,
+    raffle: raffleProvider,
+};
+
+function getRewardProvider(type: RewardType): RewardProvider {
+    const provider = providers[type] as RewardProvider | undefined;
+    if (!provider) {
+        throw new Error(`Unknown reward type "${type}"`);
+    }
+    return provider;
+}
+
+/**
+ * Issue the campaign's reward for a claimed submission (idempotent per submission)
+ */
+export function issueReward(submission: Submission & { id: string }, settings: RewardSettings): Promise<IssuedReward> {
+    return getRewardProvider(settings.type).issue(submission, settings);
+}
+
+export function revokeReward(reward: IssuedReward): Promise<void> {
+    return getRewardProvider(reward.type).revoke(reward);
+}
+
+export function getRewardStatus(reward: IssuedReward): Promise<IssuedRewardStatus> {
+    return getRewardProvider(reward.type).status(reward);
+}
+
+/**
+ * The reward already issued for a submission, if any
+ */
+export function getIssuedReward(submission: Submission): IssuedReward | null {
+    if (submission.reward_type && submission.reward_reference) {
+        return {
+            type: submission.reward_type,
+            reference: submission.reward_reference,
+            code: submission.promo_code ?? undefined,
+            expiresAt: submission.reward_expires_at ?? undefined,
+            emailData: submission.reward_data as RewardEmailData,
+        };
+    }
+
+    // Rows rewarded before reward providers existed only carry the Stripe columns
+    if (submission.stripe_promotion_code_id && submission.promo_code) {
+        return {
+            type: 'stripe_promotion_code',
+            reference: submission.stripe_promotion_code_id,
+            code: submission.promo_code,
+            emailData: { type: 'stripe_promotion_code', code: submission.promo_code },
+        };
+    }
+
+    return null;
+}
@@ -0,0 +1,43 @@
+/**
+ * Raffle Reward
+ *
+ * Enters the respondent into a raffle instead of issuing a reward directly.
+ * One entry per submission; the draw itself happens outside this system.
+ */
+
+import { upsertRaffleEntry, getRaffleEntry, withdrawRaffleEntry } from '../supabase';
+import { RewardProvider, SettingsFor } from './types';
+
+export const raffleProvider: RewardProvider<SettingsFor<'raffle'>> = {
+    type: 'raffle',
+
+    async issue(submission, settings) {
+        const entry = await upsertRaffleEntry({
+            raffle: settings.raffle,
+            submission_id: submission.id,
+            campaign_id: submission.campaign_id ?? null,
+            email: submission.email,
+        });
+
+        return {
+            type: 'raffle',
+            reference: entry.id,
+            emailData: {
+                type: 'raffle',
+                raffle: settings.raffle,
+                prize: settings.prize,
+                drawDate: settings.drawDate,
+            },
+        };
+    },
+
+    async revoke(reward) {
+        await withdrawRaffleEntry(reward.reference);
+    },
+
+    async status(reward) {
+        const entry = await getRaffleEntry(reward.reference);
+        if (!entry) return { state: 'unknown', detail: 'Raffle entry not found' };
+        return entry.withdrawn_at ? { state: 'revoked' } : { state: 'issued', detail: `Entered in ${entry.raffle}` };
+    },
+};
@@ -0,0 +1,68 @@
+/**
+ * Stripe Customer Credit Reward
+ *
+ * Credits the respondent's Stripe customer balance, which Stripe applies to
+ * their next invoices. The customer is looked up by email and, unless the
+ * campaign sets createMissingCustomer: false, created when missing.
+ */
+
+import {
+    findOrCreateCustomer,
+    createCustomerCredit,
+    reverseCustomerCredit,
+    getCustomerBalance,
+} from '../stripe';
+import { IssuedReward, RewardProvider, SettingsFor } from './types';
+
+// Reference format: "<customer id>:<balance transaction id>"
+function parseReference(reward: IssuedReward): { customerId: string; transactionId: string } {
+    const [customerId, transactionId] = reward.reference.split(':');
+    if (!customerId || !transactionId) {
+        throw new Error(`Invalid customer credit reference: ${reward.reference}`);
+    }
+    return { customerId, transactionId };
+}
+
+export const stripeCustomerCreditProvider: RewardProvider<SettingsFor<'stripe_customer_credit'>> = {
+    type: 'stripe_customer_credit',
+
+    async issue(submission, settings) {
+        const customerId = await findOrCreateCustomer(submission.email, settings.createMissingCustomer ?? true);
+        if (!customerId) {
+            throw new Error(`No Stripe customer found for ${submission.email}`);
+        }
+
+        const transaction = await createCustomerCredit(
+            customerId,
+            submission.id,
+            submission.reward_generation ?? 0,
+            settings.amount,
+            settings.currency
+        );
+        return {
+            type: 'stripe_customer_credit',
+            reference: `${customerId}:${transaction.id}`,
+            emailData: {
+                type: 'stripe_customer_credit',
+                amount: settings.amount,
+                currency: settings.currency,
+            },
+        };
+    },
+
+    async revoke(reward) {
+        const { customerId, transactionId } = parseReference(reward);
+        await reverseCustomerCredit(customerId, transactionId);
+    },
+
+    async status(reward) {
+        const { customerId } = parseReference(reward);
+        const { balance } = await getCustomerBalance(customerId);
+
+        // Credit is spent from the balance as invoices are paid; once no credit
+        // remains the reward has been used (other credits may share the balance)
+        return balance < 0
+            ? { state: 'issued', detail: `Remaining customer credit: ${-balance}` }
+            : { state: 'redeemed' };
+    },
+};
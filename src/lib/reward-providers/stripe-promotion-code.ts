@@ -0,0 +1,120 @@
+/**
+ * Stripe Promotion Code Reward
+ *
+ * One-time promotion code on the campaign's coupon (or STRIPE_COUPON_ID),
+ * in the campaign's code format (see src/lib/promo-codes.ts).
+ * The code string is reserved on the submission before it is created in Stripe,
+ * so a retry reuses the same code and Stripe idempotency key.
+ */
+
+import {
+    createPromoCode,
+    deactivatePromoCode,
+    getPromotionCode,
+    PromoCodeTakenError,
+    CreatedPromoCode,
+    PromoCodeRestrictions,
+} from '../stripe';
+import { generatePromoCode, resolvePromoCodeFormat, PromoCodeFormat } from '../promo-codes';
+import { recordRewardIssueStart, reserveRewardCode, Submission } from '../supabase';
+import { RewardProvider, SettingsFor } from './types';
+
+// Collisions are astronomically unlikely at the default length; a few in a row
+// means the code space is too small for the campaign
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Create the promo code, reusing a reserved code if a previous attempt got that far.
+ * A fresh code is reserved only when Stripe reports the code as taken.
+ */
+async function ensurePromoCode(
+    submission: Submission & { id: string },
+    couponId: string | undefined,
+    format: PromoCodeFormat,
+    restrictions: PromoCodeRestrictions
+): Promise<CreatedPromoCode> {
+    let code = submission.promo_code;
+
+    for (let attempt = 1; ; attempt++) {
+        if (!code) {
+            code = generatePromoCode(format);
+            await reserveRewardCode(submission.id, code);
+        }
+
+        try {
+            return await createPromoCode(submission.email, submission.id, code, couponId, restrictions);
+        } catch (error) {
+            if (!(error instanceof PromoCodeTakenError) || attempt >= MAX_CODE_ATTEMPTS) {
+                throw error;
+            }
+
+            // The reserved code collided with another submission's code - reserve a fresh one
+            console.warn(`[Rewards] ${error.message}, retrying with a new code (attempt ${attempt}/${MAX_CODE_ATTEMPTS})`);
+            code = undefined;
+        }
+    }
+}
+
+/**
+ * Campaign restrictions for a submission's code. Expiry counts from the first
+ * issue attempt, stored on the submission, so every retry sends Stripe
+ * identical parameters.
+ */
+async function restrictionsFor(
+    submission: Submission & { id: string },
+    settings: SettingsFor<'stripe_promotion_code'>
+): Promise<PromoCodeRestrictions> {
+    let expiresAt: Date | undefined;
+    if (settings.expiresInDays) {
+        const issueStartedAt = submission.reward_issue_started_at ?? await recordRewardIssueStart(submission.id);
+        expiresAt = new Date(new Date(issueStartedAt).getTime() + settings.expiresInDays * 24 * 60 * 60 * 1000);
+    }
+
+    return {
+        expiresAt,
+        firstTimeTransaction: settings.firstTimeTransaction,
+        minimumAmount: settings.minimumAmount,
+        minimumAmountCurrency: settings.minimumAmountCurrency,
+    };
+}
+
+export const stripePromotionCodeProvider: RewardProvider<SettingsFor<'stripe_promotion_code'>> = {
+    type: 'stripe_promotion_code',
+
+    async issue(submission, settings) {
+        const format = resolvePromoCodeFormat(settings.codeFormat);
+        const restrictions = await restrictionsFor(submission, settings);
+        const created = await ensurePromoCode(submission, settings.couponId, format, restrictions);
+        const expiresAt = created.expiresAt?.toISOString();
+
+        return {
+            type: 'stripe_promotion_code',
+            reference: created.id,
+            code: created.code,
+            expiresAt,
+            emailData: {
+                type: 'stripe_promotion_code',
+                code: created.code,
+                expiresAt,
+                amountOff: created.amountOff ?? undefined,
+                percentOff: created.percentOff ?? undefined,
+                currency: created.currency ?? undefined,
+            },
+        };
+    },
+
+    async revoke(reward) {
+        await deactivatePromoCode(reward.reference);
+    },
+
+    async status(reward) {
+        const promotionCode = await getPromotionCode(reward.reference);
+        if (promotionCode.times_redeemed > 0) {
+            return { state: 'redeemed', detail: `Redeemed ${promotionCode.times_redeemed} time(s)` };
+        }
+        if (promotionCode.expires_at && promotionCode.expires_at * 1000 < Date.now()) {
+            return { state: 'revoked', detail: 'Expired' };
+        }
+        return promotionCode.active ? { state: 'issued' } : { state: 'revoked' };
+    },
+};
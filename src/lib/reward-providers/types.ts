@@ -0,0 +1,58 @@
+/**
+ * Reward Provider Types
+ *
+ * A provider issues one kind of reward for a submission and can later revoke it
+ * or report its status. Providers must make `issue` idempotent per submission:
+ * the lifecycle retries it after a crash, and a retry must return the same
+ * reward rather than a second one.
+ */
+
+import type { RewardSettings, RewardType } from '../campaigns';
+import type { Submission } from '../supabase';
+
+/**
+ * Reward-specific data handed to the reward email template
+ */
+export type RewardEmailData =
+    | {
+        type: 'stripe_promotion_code';
+        code: string;
+        expiresAt?: string;
+        // Coupon discount (minor units with currency, or percent); absent on codes issued before it was recorded
+        amountOff?: number;
+        percentOff?: number;
+        currency?: string;
+    }
+    | { type: 'stripe_customer_credit'; amount: number; currency: string }
+    | { type: 'code_pool'; code: string }
+    | { type: 'raffle'; raffle: string; prize?: string; drawDate?: string };
+
+/**
+ * A reward as issued by its provider and stored on the submission
+ */
+export interface IssuedReward {
+    type: RewardType;
+    // Provider-side identifier (promotion code id, balance transaction id, pool row id, raffle entry id)
+    reference: string;
+    // Code the respondent redeems, for code-based rewards
+    code?: string;
+    // When the reward stops being redeemable, if it expires (ISO timestamp)
+    expiresAt?: string;
+    emailData: RewardEmailData;
+}
+
+export type RewardState = 'issued' | 'redeemed' | 'revoked' | 'unknown';
+
+export interface IssuedRewardStatus {
+    state: RewardState;
+    detail?: string;
+}
+
+export type SettingsFor<T extends RewardType> = Extract<RewardSettings, { type: T }>;
+
+export interface RewardProvider<S extends RewardSettings = RewardSettings> {
+    type: S['type'];
+    issue(submission: Submission & { id: string }, settings: S): Promise<IssuedReward>;
+    revoke(reward: IssuedReward): Promise<void>;
+    status(reward: IssuedReward): Promise<IssuedRewardStatus>;
+}
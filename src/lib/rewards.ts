@@ -0,0 +1,121 @@
+/**
+ * Reward Lifecycle
+ *
+ * Issues exactly one reward per valid submission:
+ * - pending: claimed, reward not yet confirmed by its provider
+ *   (a Stripe promo code may already be reserved on the row)
+ * - code_created: reward issued by the campaign's provider, email not yet sent
+ * - email_sent: reward email accepted by the mail provider (terminal)
+ * - failed: last attempt failed; the next claim resumes from the last completed step
+ *   (a failed reward email stays in the outbox and is retried by the sweeper)
+ *
+ * Each attempt is claimed atomically in the submissions table, so concurrent
+ * webhook deliveries or retries cannot process the same submission twice.
+ * The reward itself comes from the provider configured on the campaign
+ * (see src/lib/reward-providers).
+ */
+
+import { issueReward, revokeReward, getIssuedReward } from './reward-providers';
+import { queueRewardEmail, deliverOutboxEmail } from './outbox';
+import { resolveCampaignForSubmission } from './campaigns';
+import {
+    claimSubmissionReward,
+    markRewardIssued,
+    markRewardFailed,
+    getSubmissionById,
+    resetRewardForReissue,
+    hasActiveRewardClaim,
+} from './supabase';
+
+export interface RewardOutcome {
+    processed: boolean;
+    success: boolean;
+    promoCode?: string;
+    emailSent?: boolean;
+    error?: string;
+}
+
+/**
+ * Run (or resume) the reward lifecycle for a submission
+ */
+export async function processReward(submissionId: string): Promise<RewardOutcome> {
+    const claimed = await claimSubmissionReward(submissionId);
+    if (!claimed || !claimed.id) {
+        console.log('[Rewards] Submission not claimable (already rewarded, in progress, or not valid):', submissionId);
+        return { processed: false, success: true };
+    }
+
+    const submission = { ...claimed, id: claimed.id };
+    const generation = submission.reward_generation ?? 0;
+    console.log('[Rewards] Claimed submission', submission.id, 'attempt', submission.reward_attempts, 'status', submission.reward_status);
+
+    try {
+        const campaign = await resolveCampaignForSubmission(submission);
+
+        // 1. Reward (skipped when a previous attempt already issued it)
+        let reward = getIssuedReward(submission);
+        if (!reward) {
+            console.log('[Rewards] Issuing', campaign.reward.type, 'reward for:', submission.email, 'campaign:', campaign.name);
+            reward = await issueReward(submission, campaign.reward);
+            if (!await markRewardIssued(submission.id, generation, reward)) {
+                // Reissued while this attempt ran: the new generation owns the row, so
+                // this reward would be live but untracked
+                await revokeReward(reward);
+                throw new Error('Reward was reissued while this attempt was running');
+            }
+        }
+        const promoCode = reward.code;
+
+        // 2. Reward email (via the outbox, so a failed send is retried by the sweeper)
+        console.log('[Rewards] Sending reward email to:', submission.email);
+        const entry = await queueRewardEmail(submission, reward, campaign.emailTemplates.reward);
+        const delivery = await deliverOutboxEmail(entry);
+
+        if (!delivery || !delivery.success) {
+            const reason = delivery
+                ? `Reward email failed: ${delivery.error}`
+                : 'Reward email is in flight or waiting for retry in the outbox';
+            console.error('[Rewards]', reason);
+            await markRewardFailed(submission.id, generation, reason);
+            return { processed: true, success: false, promoCode, emailSent: false, error: reason };
+        }
+
+        console.log('[Rewards] Reward flow completed for:', submission.email, 'with', reward.type, promoCode ?? reward.reference);
+        return { processed: true, success: true, promoCode, emailSent: true };
+
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[Rewards] Reward attempt failed for', submission.id, '-', reason);
+        await markRewardFailed(submission.id, generation, reason);
+        return { processed: true, success: false, error: reason };
+    }
+}
+
+/**
+ * Replace a submission's reward: revoke the current one with its provider,
+ * then run the lifecycle again to issue and email a new one
+ */
+export async function reissueReward(submissionId: string): Promise<RewardOutcome> {
+    const submission = await getSubmissionById(submissionId);
+    if (!submission || submission.classification !== 'valid') {
+        throw new Error('Only valid submissions can have their reward reissued');
+    }
+
+    // A running attempt may be about to record or email a reward; replacing it now
+    // would leave that reward live but untracked
+    if (hasActiveRewardClaim(submission)) {
+        throw new Error('A reward attempt is in progress, try again in a few minutes');
+    }
+
+    const current = getIssuedReward(submission);
+    if (current) {
+        await revokeReward(current);
+    }
+
+    console.log('[Rewards] Reissuing reward for', submissionId, 'replacing', current?.type, current?.code ?? current?.reference);
+    if (!await resetRewardForReissue(submissionId, submission.reward_generation ?? 0)) {
+        throw new Error('The reward changed while reissuing (another reissue or a reward attempt), reload and try again');
+    }
+
+    return processReward(submissionId);
+}
@@ -3,6 +3,7 @@
  * 
  * Generates unique one-time promotion codes for survey rewards.
  * Each code provides a fixed-amount discount equivalent to one monthly subscription.
+ * Creation is idempotent per submission so retries never issue a second code.
  */
 
 import Stripe from 'stripe';
@@ -33,61 +34,249 @@ function getCouponId(): string {
     return couponId;
 }
 
+function getWebhookSecret(): string {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new Error('Missing STRIPE_WEBHOOK_SECRET environment variable');
+    }
+    return secret;
+}
+
+export interface CreatedPromoCode {
+    id: string;
+    code: string;
+    expiresAt: Date | null;
+    // Coupon discount: a fixed amount in the currency's minor unit, or a percentage
+    amountOff: number | null;
+    percentOff: number | null;
+    currency: string | null;
+}
+
 /**
- * Create a unique promotion code for a user
- * 
- * @param email - User's email (used for tracking and uniqueness)
- * @returns The generated promotion code string
+ * Optional limits on a promotion code. These are part of the create request, so
+ * they must be derived deterministically (e.g. expiry from the submission time)
+ * for the idempotency key to stay valid across retries.
+ */
+export interface PromoCodeRestrictions {
+    expiresAt?: Date;
+    firstTimeTransaction?: boolean;
+    minimumAmount?: number;
+    minimumAmountCurrency?: string;
+}
+
+/**
+ * Thrown when the requested code string already belongs to another submission
  */
-export async function createPromoCode(email: string): Promise<string> {
+export class PromoCodeTakenError extends Error {
+    constructor(code: string) {
+        super(`Promotion code ${code} is already in use`);
+        this.name = 'PromoCodeTakenError';
+    }
+}
+
+/**
+ * Only a duplicate code is worth retrying with a new code; anything else
+ * (deleted coupon, bad key, rate limit) must surface as-is
+ */
+function isCodeAlreadyExistsError(error: unknown): boolean {
+    return error instanceof Stripe.errors.StripeInvalidRequestError &&
+        (error.code === 'resource_already_exists' || /already exists/i.test(error.message));
+}
+
+function toCreatedPromoCode(promotionCode: Stripe.PromotionCode): CreatedPromoCode {
+    return {
+        id: promotionCode.id,
+        code: promotionCode.code,
+        expiresAt: promotionCode.expires_at ? new Date(promotionCode.expires_at * 1000) : null,
+        amountOff: promotionCode.coupon.amount_off,
+        percentOff: promotionCode.coupon.percent_off,
+        currency: promotionCode.coupon.currency,
+    };
+}
+
+/**
+ * Create a promotion code for a submission
+ *
+ * The Stripe idempotency key is derived from the submission id and code, so
+ * repeating the call for the same reserved code can never create a second one.
+ * If the code already exists and was issued for this submission (e.g. the
+ * idempotency window expired), the existing code is returned instead.
+ *
+ * @param email - User's email (used for tracking)
+ * @param submissionId - Submission the reward belongs to
+ * @param code - Reserved code string (see generatePromoCode)
+ * @param campaignCouponId - Coupon configured on the campaign (defaults to STRIPE_COUPON_ID)
+ * @param restrictions - Expiry, first-time-customer and minimum-amount limits
+ * @returns The Stripe promotion code id, code string and expiry
+ */
+export async function createPromoCode(
+    email: string,
+    submissionId: string,
+    code: string,
+    campaignCouponId?: string,
+    restrictions: PromoCodeRestrictions = {}
+): Promise<CreatedPromoCode> {
     const stripe = getStripeClient();
-    const couponId = getCouponId();
+    const couponId = campaignCouponId || getCouponId();
 
-    // Generate a unique code suffix
-    const uniqueSuffix = Math.random().toString(36).substring(2, 8).toUpperCase();
-    const codePrefix = 'SURVEY';
-    const promoCodeString = `${codePrefix}-${uniqueSuffix}`;
+    const codeRestrictions: Stripe.PromotionCodeCreateParams.Restrictions = {};
+    if (restrictions.firstTimeTransaction) {
+        codeRestrictions.first_time_transaction = true;
+    }
+    if (restrictions.minimumAmount) {
+        if (!restrictions.minimumAmountCurrency) {
+            throw new Error('minimumAmountCurrency is required with minimumAmount');
+        }
+        codeRestrictions.minimum_amount = restrictions.minimumAmount;
+        codeRestrictions.minimum_amount_currency = restrictions.minimumAmountCurrency;
+    }
 
     try {
         const promotionCode = await stripe.promotionCodes.create({
             coupon: couponId,
-            code: promoCodeString,
+            code,
             max_redemptions: 1, // One-time use only
+            ...(restrictions.expiresAt && { expires_at: Math.floor(restrictions.expiresAt.getTime() / 1000) }),
+            ...(Object.keys(codeRestrictions).length > 0 && { restrictions: codeRestrictions }),
             metadata: {
                 email: email,
+                submission_id: submissionId,
                 source: 'survey_reward',
                 created_by: 'survey-automation-system',
             },
+        }, {
+            idempotencyKey: `survey-reward-${submissionId}-${code}`,
         });
 
-        console.log(`Created promo code ${promoCodeString} for ${email}`);
-        return promotionCode.code;
+        console.log(`Created promo code ${code} for ${email}`);
+        return toCreatedPromoCode(promotionCode);
     } catch (error) {
-        console.error('Error creating Stripe promo code:', error);
-
-        // If code collision, try again with different suffix
-        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
-            const retrySuffix = Math.random().toString(36).substring(2, 10).toUpperCase();
-            const retryCode = `${codePrefix}-${retrySuffix}`;
-
-            const promotionCode = await stripe.promotionCodes.create({
-                coupon: couponId,
-                code: retryCode,
-                max_redemptions: 1,
-                metadata: {
-                    email: email,
-                    source: 'survey_reward',
-                    created_by: 'survey-automation-system',
-                },
-            });
-
-            return promotionCode.code;
+        if (!isCodeAlreadyExistsError(error)) {
+            console.error('Error creating Stripe promo code:', error);
+            throw error;
         }
 
-        throw error;
+        const existing = await stripe.promotionCodes.list({ code, limit: 1 });
+        const match = existing.data[0];
+        if (match && match.metadata?.submission_id === submissionId) {
+            console.log(`Promo code ${code} already created for submission ${submissionId}`);
+            return toCreatedPromoCode(match);
+        }
+
+        throw new PromoCodeTakenError(code);
     }
 }
 
+/**
+ * Deactivate a promotion code so it can no longer be redeemed
+ */
+export async function deactivatePromoCode(promotionCodeId: string): Promise<void> {
+    const stripe = getStripeClient();
+    await stripe.promotionCodes.update(promotionCodeId, { active: false });
+    console.log(`Deactivated promo code ${promotionCodeId}`);
+}
+
+/**
+ * Fetch a promotion code to check whether it is still active or was redeemed
+ */
+export async function getPromotionCode(promotionCodeId: string): Promise<Stripe.PromotionCode> {
+    const stripe = getStripeClient();
+    return stripe.promotionCodes.retrieve(promotionCodeId);
+}
+
+/**
+ * Find the Stripe customer for an email, optionally creating one
+ *
+ * @returns The customer id, or null if none exists and creation is disabled
+ */
+export async function findOrCreateCustomer(email: string, create: boolean): Promise<string | null> {
+    const stripe = getStripeClient();
+    const existing = await stripe.customers.list({ email, limit: 1 });
+    if (existing.data[0]) {
+        return existing.data[0].id;
+    }
+
+    if (!create) {
+        return null;
+    }
+
+    const customer = await stripe.customers.create({
+        email,
+        metadata: { source: 'survey_reward' },
+    }, {
+        idempotencyKey: `survey-customer-${email.toLowerCase()}`,
+    });
+
+    console.log(`Created Stripe customer ${customer.id} for ${email}`);
+    return customer.id;
+}
+
+/**
+ * Credit a customer's balance for a submission
+ *
+ * The idempotency key is derived from the submission id and reward generation,
+ * so a retry never credits twice while a reissue creates a new credit.
+ *
+ * @param generation - The submission's reward_generation (0 until it is reissued)
+ * @param amount - Credit in the currency's minor unit (e.g. cents)
+ */
+export async function createCustomerCredit(
+    customerId: string,
+    submissionId: string,
+    generation: number,
+    amount: number,
+    currency: string
+): Promise<Stripe.CustomerBalanceTransaction> {
+    const stripe = getStripeClient();
+    const transaction = await stripe.customers.createBalanceTransaction(customerId, {
+        // Negative amounts are credits applied to the customer's next invoices
+        amount: -Math.abs(amount),
+        currency,
+        description: 'Survey reward',
+        metadata: {
+            submission_id: submissionId,
+            source: 'survey_reward',
+        },
+    }, {
+        // Generation 0 keeps the original key so credits issued before reissues were counted still dedupe
+        idempotencyKey: generation > 0 ? `survey-credit-${submissionId}-${generation}` : `survey-credit-${submissionId}`,
+    });
+
+    console.log(`Credited ${amount} ${currency} to customer ${customerId} for submission ${submissionId}`);
+    return transaction;
+}
+
+/**
+ * Current balance of a customer (negative values are unused credit)
+ */
+export async function getCustomerBalance(customerId: string): Promise<{ balance: number; currency: string | null }> {
+    const stripe = getStripeClient();
+    const customer = await stripe.customers.retrieve(customerId);
+    if (customer.deleted) {
+        return { balance: 0, currency: null };
+    }
+    return { balance: customer.balance, currency: customer.currency ?? null };
+}
+
+/**
+ * Reverse a survey credit by debiting the same amount
+ */
+export async function reverseCustomerCredit(customerId: string, transactionId: string): Promise<void> {
+    const stripe = getStripeClient();
+    const original = await stripe.customers.retrieveBalanceTransaction(customerId, transactionId);
+
+    await stripe.customers.createBalanceTransaction(customerId, {
+        amount: Math.abs(original.amount),
+        currency: original.currency,
+        description: 'Survey reward revoked',
+        metadata: { reverses: transactionId },
+    }, {
+        idempotencyKey: `survey-credit-reversal-${transactionId}`,
+    });
+
+    console.log(`Reversed credit ${transactionId} for customer ${customerId}`);
+}
+
 /**
  * Verify that a coupon exists and is valid
  */
@@ -102,3 +291,15 @@ export async function verifyCouponExists(): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * Verify a Stripe webhook signature and parse the event
+ *
+ * @throws If the signature is missing or invalid
+ */
+export function constructWebhookEvent(rawBody: string, signature: string | null): Stripe.Event {
+    if (!signature) {
+        throw new Error('Missing Stripe-Signature header');
+    }
+    return getStripeClient().webhooks.constructEvent(rawBody, signature, getWebhookSecret());
+}
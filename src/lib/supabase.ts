@@ -1,21 +1,195 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { AttentionCheckOutcome } from './attention-checks';
+import type { Campaign, RewardType } from './campaigns';
+import type { IssuedReward, RewardEmailData } from './reward-providers/types';
+import type { Locale } from './emails/i18n';
+import type { StoredAnswers } from './answers';
+import type { FormDefinition } from './form-versions';
 
 // Types for database operations
+export const SUBMISSION_CLASSIFICATIONS = ['valid', 'bot', 'attention_fail', 'rejected', 'needs_review'] as const;
+export type SubmissionClassification = typeof SUBMISSION_CLASSIFICATIONS[number];
+
+export type RewardStatus = 'pending' | 'code_created' | 'email_sent' | 'failed';
+
+export interface BotSignal {
+    heuristic: string;
+    score: number;
+    reason: string;
+}
+
 export interface Submission {
     id?: string;
     email: string;
     tally_response_id: string;
-    answers: Record<string, unknown>;
-    classification: 'valid' | 'bot' | 'attention_fail';
+    form_id?: string | null;
+    campaign_id?: string | null;
+    // Form structure the respondent answered (null for rows stored before form versions)
+    form_version_id?: string | null;
+    answers: StoredAnswers;
+    classification: SubmissionClassification;
     classification_reason?: string;
+    email_canonical?: string;
+    email_flags?: EmailFlag[];
     promo_code?: string;
     email_sent?: boolean;
     email_type?: 'reward' | 'abuse' | null;
-    submission_time_seconds?: number;
+    submission_time_seconds?: number | null;
+    bot_score?: number;
+    bot_signals?: BotSignal[];
+    answer_fingerprint?: string;
+    attention_checks?: AttentionCheckOutcome[];
+    reward_status?: RewardStatus;
+    reward_attempts?: number;
+    reward_error?: string | null;
+    reward_claimed_at?: string | null;
+    stripe_promotion_code_id?: string | null;
+    reward_type?: RewardType | null;
+    reward_reference?: string | null;
+    reward_data?: RewardEmailData | null;
+    // Incremented by each reissue (0 for the first reward)
+    reward_generation?: number;
+    reward_expires_at?: string | null;
+    reward_redeemed_at?: string | null;
+    reward_paid_at?: string | null;
+    reward_paid_amount?: number | null;
+    reward_paid_currency?: string | null;
+    stripe_customer_id?: string | null;
+    reward_issue_started_at?: string | null;
+    reward_email_sent_at?: string | null;
+    reward_reminders_sent?: number;
+    reward_next_reminder_at?: string | null;
+    reward_reminders_done_at?: string | null;
+    locale?: Locale | null;
+    respondent_name?: string | null;
+    // Latest reward/abuse email as accepted by the email transport, and what its delivery events reported
+    email_message_id?: string | null;
+    email_delivery_status?: EmailDeliveryStatus | null;
+    email_delivery_error?: string | null;
+    email_delivery_updated_at?: string | null;
+    reviewed_at?: string | null;
+    reviewed_by?: string | null;
+    review_note?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export type OutboxEmailType = 'reward' | 'abuse' | 'reminder';
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'dead' | 'cancelled';
+
+/**
+ * Delivery outcome reported by Mailgun after a send was accepted.
+ * bounced = permanent failure; failed = temporary failure Mailgun is still retrying.
+ */
+export const EMAIL_DELIVERY_STATUSES = ['failed', 'delivered', 'opened', 'bounced', 'complained'] as const;
+export type EmailDeliveryStatus = typeof EMAIL_DELIVERY_STATUSES[number];
+
+export interface EmailOutboxEntry {
+    id: string;
+    submission_id: string | null;
+    dedupe_key: string;
+    email_type: OutboxEmailType;
+    recipient: string;
+    payload: Record<string, unknown>;
+    status: OutboxStatus;
+    attempts: number;
+    max_attempts: number;
+    next_attempt_at: string;
+    last_error?: string | null;
+    message_id?: string | null;
+    locked_at?: string | null;
+    sent_at?: string | null;
+    delivery_status?: EmailDeliveryStatus | null;
+    delivery_updated_at?: string | null;
     created_at?: string;
     updated_at?: string;
 }
 
+export interface EmailEvent {
+    id?: string;
+    provider_event_id: string;
+    message_id: string | null;
+    outbox_id: string | null;
+    submission_id: string | null;
+    event: EmailDeliveryStatus;
+    recipient: string | null;
+    detail: string | null;
+    occurred_at: string;
+    payload: Record<string, unknown>;
+    created_at?: string;
+}
+
+export type EmailSuppressionReason = 'bounced' | 'complained' | 'manual';
+
+export interface EmailSuppression {
+    email: string;
+    reason: EmailSuppressionReason;
+    detail?: string | null;
+    created_at?: string;
+}
+
+export interface RewardPoolCode {
+    id: string;
+    pool: string;
+    code: string;
+    submission_id: string | null;
+    assigned_at: string | null;
+    revoked_at: string | null;
+    created_at?: string;
+}
+
+export interface RaffleEntry {
+    id: string;
+    raffle: string;
+    submission_id: string;
+    campaign_id: string | null;
+    email: string;
+    withdrawn_at: string | null;
+    created_at?: string;
+}
+
+/**
+ * One distinct structure (fields and options) of a Tally form
+ */
+export interface FormVersion {
+    id: string;
+    form_id: string;
+    content_hash: string;
+    form_name: string | null;
+    definition: FormDefinition;
+    created_at: string;
+}
+
+export type DuplicateReason = 'email_already_submitted' | 'alias_already_submitted' | 'concurrent_submission';
+
+export type EmailFlag = 'disposable_domain' | 'aliased_address';
+
+export interface DuplicateAttempt {
+    id?: string;
+    original_submission_id: string | null;
+    campaign_id: string | null;
+    email: string;
+    tally_response_id: string;
+    reason: DuplicateReason;
+    answers: StoredAnswers;
+    created_at?: string;
+}
+
+const UNIQUE_VIOLATION = '23505';
+const UNIQUE_REWARDED_EMAIL_INDEX = 'idx_submissions_unique_rewarded_canonical_email';
+
+/**
+ * Thrown by insertSubmission when a database uniqueness guarantee rejects the row:
+ * - response_id: Tally re-delivered a response that is already stored
+ * - email: another valid submission for this email and campaign won the race
+ */
+export class DuplicateSubmissionError extends Error {
+    constructor(public readonly conflict: 'response_id' | 'email', message: string) {
+        super(message);
+        this.name = 'DuplicateSubmissionError';
+    }
+}
+
 // Lazy initialization to avoid build-time errors
 let _supabase: SupabaseClient | null = null;
 
@@ -57,6 +231,16 @@ export async function insertSubmission(submission: Omit<Submission, 'id' | 'crea
         .select()
         .single();
 
+    if (error?.code === UNIQUE_VIOLATION) {
+        const detail = `${error.message} ${error.details ?? ''}`;
+        if (detail.includes('tally_response_id')) {
+            throw new DuplicateSubmissionError('response_id', `Response ${submission.tally_response_id} already stored`);
+        }
+        if (detail.includes(UNIQUE_REWARDED_EMAIL_INDEX)) {
+            throw new DuplicateSubmissionError('email', `Valid submission already exists for ${submission.email}`);
+        }
+    }
+
     if (error) {
         console.error('Error inserting submission:', error);
         throw new Error(`Failed to insert submission: ${error.message}`);
@@ -66,14 +250,25 @@ export async function insertSubmission(submission: Omit<Submission, 'id' | 'crea
 }
 
 /**
- * Check if an email has already submitted a survey
+ * Find an earlier submission from the same canonical email in the same campaign
+ * (submissions from forms without a campaign are compared with each other)
+ *
+ * @returns The earliest matching submission's id and raw email, or null if none
  */
-export async function checkDuplicateEmail(email: string): Promise<boolean> {
+export async function findExistingSubmission(
+    canonicalEmail: string,
+    campaignId: string | null
+): Promise<{ id: string; email: string } | null> {
     const client = getSupabaseClient();
-    const { data, error } = await client
+    let query = client
         .from('submissions')
-        .select('id')
-        .eq('email', email.toLowerCase())
+        .select('id, email')
+        .eq('email_canonical', canonicalEmail);
+
+    query = campaignId ? query.eq('campaign_id', campaignId) : query.is('campaign_id', null);
+
+    const { data, error } = await query
+        .order('created_at', { ascending: true })
         .limit(1);
 
     if (error) {
@@ -81,42 +276,247 @@ export async function checkDuplicateEmail(email: string): Promise<boolean> {
         throw new Error(`Failed to check duplicate email: ${error.message}`);
     }
 
-    return data && data.length > 0;
+    return data && data.length > 0 ? data[0] : null;
 }
 
 /**
- * Update a submission with promo code and email status
+ * Whether a Tally response was already handled, either stored as a submission
+ * or logged as a duplicate attempt (Tally retries deliveries it saw fail)
  */
-export async function updateSubmissionWithReward(
-    submissionId: string,
-    promoCode: string
-): Promise<void> {
+export async function isResponseProcessed(tallyResponseId: string): Promise<boolean> {
+    const client = getSupabaseClient();
+
+    for (const table of ['submissions', 'duplicate_attempts']) {
+        const { count, error } = await client
+            .from(table)
+            .select('id', { count: 'exact', head: true })
+            .eq('tally_response_id', tallyResponseId);
+
+        if (error) {
+            console.error('Error checking processed response:', error);
+            throw new Error(`Failed to check processed response: ${error.message}`);
+        }
+
+        if ((count ?? 0) > 0) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Record a rejected duplicate submission for repeat-abuse analysis
+ */
+export async function insertDuplicateAttempt(attempt: Omit<DuplicateAttempt, 'id' | 'created_at'>): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('duplicate_attempts')
+        .insert(attempt);
+
+    if (error) {
+        console.error('Error inserting duplicate attempt:', error);
+        throw new Error(`Failed to insert duplicate attempt: ${error.message}`);
+    }
+}
+
+/**
+ * Count earlier submissions with the same answer fingerprint
+ */
+export async function countSubmissionsWithFingerprint(fingerprint: string): Promise<number> {
+    const client = getSupabaseClient();
+    const { count, error } = await client
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('answer_fingerprint', fingerprint);
+
+    if (error) {
+        console.error('Error counting fingerprint matches:', error);
+        throw new Error(`Failed to count fingerprint matches: ${error.message}`);
+    }
+
+    return count ?? 0;
+}
+
+// How long a reward claim blocks other workers before it is considered abandoned
+export const REWARD_CLAIM_LEASE_SECONDS = 300;
+
+/**
+ * Whether a reward attempt currently holds the submission's claim
+ */
+export function hasActiveRewardClaim(submission: Pick<Submission, 'reward_claimed_at'>): boolean {
+    return !!submission.reward_claimed_at &&
+        Date.parse(submission.reward_claimed_at) > Date.now() - REWARD_CLAIM_LEASE_SECONDS * 1000;
+}
+
+/**
+ * Atomically claim a submission for reward processing
+ * Returns null if the submission is not claimable (not valid, already rewarded,
+ * out of attempts, or currently being processed by another request)
+ */
+export async function claimSubmissionReward(submissionId: string): Promise<Submission | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .rpc('claim_submission_reward', { p_submission_id: submissionId, p_lease_seconds: REWARD_CLAIM_LEASE_SECONDS });
+
+    if (error) {
+        console.error('Error claiming submission reward:', error);
+        throw new Error(`Failed to claim submission reward: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * Reserve a promo code on the submission before it is created in Stripe,
+ * so a retry reuses the same code (and the same Stripe idempotency key)
+ */
+export async function reserveRewardCode(submissionId: string, promoCode: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('submissions')
+        .update({ promo_code: promoCode })
+        .eq('id', submissionId)
+        .is('stripe_promotion_code_id', null);
+
+    if (error) {
+        console.error('Error reserving reward code:', error);
+        throw new Error(`Failed to reserve reward code: ${error.message}`);
+    }
+}
+
+/**
+ * Record the first attempt to issue the submission's reward, keeping an
+ * earlier attempt's time if one is already stored
+ *
+ * @returns The stored time of the first attempt
+ */
+export async function recordRewardIssueStart(submissionId: string): Promise<string> {
+    const client = getSupabaseClient();
+    const { error: updateError } = await client
+        .from('submissions')
+        .update({ reward_issue_started_at: new Date().toISOString() })
+        .eq('id', submissionId)
+        .is('reward_issue_started_at', null);
+
+    if (updateError) {
+        console.error('Error recording reward issue start:', updateError);
+        throw new Error(`Failed to record reward issue start: ${updateError.message}`);
+    }
+
+    const { data, error } = await client
+        .from('submissions')
+        .select('reward_issue_started_at')
+        .eq('id', submissionId)
+        .single();
+
+    if (error) {
+        console.error('Error fetching reward issue start:', error);
+        throw new Error(`Failed to fetch reward issue start: ${error.message}`);
+    }
+
+    return data.reward_issue_started_at;
+}
+
+/**
+ * Record that the reward has been issued by its provider
+ *
+ * @returns false if the submission moved to another reward generation (it was
+ * reissued while this attempt ran), in which case nothing is recorded
+ */
+export async function markRewardIssued(submissionId: string, generation: number, reward: IssuedReward): Promise<boolean> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            reward_type: reward.type,
+            reward_reference: reward.reference,
+            reward_data: reward.emailData,
+            reward_expires_at: reward.expiresAt ?? null,
+            promo_code: reward.code ?? null,
+            stripe_promotion_code_id: reward.type === 'stripe_promotion_code' ? reward.reference : null,
+            reward_status: 'code_created',
+        })
+        .eq('id', submissionId)
+        .eq('reward_generation', generation)
+        .select('id');
+
+    if (error) {
+        console.error('Error marking reward issued:', error);
+        throw new Error(`Failed to mark reward issued: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * A new send starts with a clean delivery status, tracked under its message id
+ */
+function freshDeliveryColumns(messageId?: string): Partial<Submission> {
+    return {
+        email_message_id: messageId ?? null,
+        email_delivery_status: null,
+        email_delivery_error: null,
+        email_delivery_updated_at: null,
+    };
+}
+
+/**
+ * Record that the reward email was accepted by the mail provider
+ */
+export async function markRewardEmailSent(submissionId: string, messageId?: string): Promise<void> {
     const client = getSupabaseClient();
     const { error } = await client
         .from('submissions')
         .update({
-            promo_code: promoCode,
+            reward_status: 'email_sent',
+            reward_email_sent_at: new Date().toISOString(),
+            reward_claimed_at: null,
             email_sent: true,
-            email_type: 'reward'
+            email_type: 'reward',
+            ...freshDeliveryColumns(messageId),
         })
         .eq('id', submissionId);
 
     if (error) {
-        console.error('Error updating submission with reward:', error);
-        throw new Error(`Failed to update submission: ${error.message}`);
+        console.error('Error marking reward email sent:', error);
+        throw new Error(`Failed to mark reward email sent: ${error.message}`);
+    }
+}
+
+/**
+ * Record a failed reward attempt and release the claim so it can be retried
+ */
+export async function markRewardFailed(submissionId: string, generation: number, reason: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('submissions')
+        .update({
+            reward_status: 'failed',
+            reward_error: reason,
+            reward_claimed_at: null,
+        })
+        .eq('id', submissionId)
+        .eq('reward_generation', generation) // a stale attempt must not release a reissue's claim
+        .neq('reward_status', 'email_sent'); // the outbox may have delivered it concurrently
+
+    if (error) {
+        console.error('Error marking reward failed:', error);
+        throw new Error(`Failed to mark reward failed: ${error.message}`);
     }
 }
 
 /**
  * Mark a submission as having received an abuse email
  */
-export async function markAbuseEmailSent(submissionId: string): Promise<void> {
+export async function markAbuseEmailSent(submissionId: string, messageId?: string): Promise<void> {
     const client = getSupabaseClient();
     const { error } = await client
         .from('submissions')
         .update({
             email_sent: true,
-            email_type: 'abuse'
+            email_type: 'abuse',
+            ...freshDeliveryColumns(messageId),
         })
         .eq('id', submissionId);
 
@@ -144,3 +544,990 @@ export async function getSubmissionById(id: string): Promise<Submission | null>
 
     return data;
 }
+
+/**
+ * Add an email to the outbox. Idempotent on dedupe_key: an existing entry
+ * with the same key is returned unchanged.
+ */
+export async function enqueueOutboxEmail(
+    entry: Pick<EmailOutboxEntry, 'submission_id' | 'dedupe_key' | 'email_type' | 'recipient' | 'payload'>
+): Promise<EmailOutboxEntry> {
+    const client = getSupabaseClient();
+    const { error: insertError } = await client
+        .from('email_outbox')
+        .upsert(entry, { onConflict: 'dedupe_key', ignoreDuplicates: true });
+
+    if (insertError) {
+        console.error('Error enqueueing outbox email:', insertError);
+        throw new Error(`Failed to enqueue outbox email: ${insertError.message}`);
+    }
+
+    const { data, error } = await client
+        .from('email_outbox')
+        .select('*')
+        .eq('dedupe_key', entry.dedupe_key)
+        .single();
+
+    if (error) {
+        console.error('Error fetching outbox email:', error);
+        throw new Error(`Failed to fetch outbox email: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Atomically claim outbox entries for delivery (a single entry when entryId is given)
+ */
+export async function claimOutboxEmails(limit: number, entryId?: string): Promise<EmailOutboxEntry[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .rpc('claim_email_outbox', { p_limit: limit, p_entry_id: entryId ?? null });
+
+    if (error) {
+        console.error('Error claiming outbox emails:', error);
+        throw new Error(`Failed to claim outbox emails: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Mark an outbox entry as delivered to the mail provider
+ */
+export async function markOutboxSent(entryId: string, messageId?: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_outbox')
+        .update({
+            status: 'sent',
+            message_id: messageId ?? null,
+            last_error: null,
+            locked_at: null,
+            sent_at: new Date().toISOString(),
+        })
+        .eq('id', entryId);
+
+    if (error) {
+        console.error('Error marking outbox email sent:', error);
+        throw new Error(`Failed to mark outbox email sent: ${error.message}`);
+    }
+}
+
+/**
+ * Record a failed delivery, scheduling a retry or dead-lettering the entry
+ */
+export async function markOutboxFailed(
+    entryId: string,
+    reason: string,
+    nextAttemptAt: Date | null
+): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_outbox')
+        .update({
+            status: nextAttemptAt ? 'failed' : 'dead',
+            last_error: reason,
+            locked_at: null,
+            ...(nextAttemptAt && { next_attempt_at: nextAttemptAt.toISOString() }),
+        })
+        .eq('id', entryId);
+
+    if (error) {
+        console.error('Error marking outbox email failed:', error);
+        throw new Error(`Failed to mark outbox email failed: ${error.message}`);
+    }
+}
+
+/**
+ * Stop delivering an entry that is no longer wanted (e.g. a reminder for a redeemed code)
+ */
+export async function markOutboxCancelled(entryId: string, reason: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_outbox')
+        .update({
+            status: 'cancelled',
+            last_error: reason,
+            locked_at: null,
+        })
+        .eq('id', entryId);
+
+    if (error) {
+        console.error('Error cancelling outbox email:', error);
+        throw new Error(`Failed to cancel outbox email: ${error.message}`);
+    }
+}
+
+/**
+ * Find submissions still owed an email that have no outbox entry yet
+ */
+export async function findUnqueuedSubmissions(limit: number): Promise<Submission[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .rpc('find_unqueued_submissions', { p_limit: limit });
+
+    if (error) {
+        console.error('Error finding unqueued submissions:', error);
+        throw new Error(`Failed to find unqueued submissions: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Get the campaign configured for a Tally form
+ */
+export async function getCampaignByFormId(formId: string): Promise<Campaign | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('campaigns')
+        .select('*')
+        .eq('form_id', formId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching campaign by form id:', error);
+        throw new Error(`Failed to fetch campaign: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Get a campaign by ID
+ */
+export async function getCampaignById(id: string): Promise<Campaign | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('campaigns')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching campaign:', error);
+        throw new Error(`Failed to fetch campaign: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * List submissions held for manual review, oldest first
+ */
+export async function listSubmissionsForReview(options: {
+    campaignId?: string;
+    limit: number;
+    offset: number;
+}): Promise<Submission[]> {
+    const client = getSupabaseClient();
+    let query = client
+        .from('submissions')
+        .select('*')
+        .eq('classification', 'needs_review');
+
+    if (options.campaignId) {
+        query = query.eq('campaign_id', options.campaignId);
+    }
+
+    const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+        console.error('Error listing submissions for review:', error);
+        throw new Error(`Failed to list submissions for review: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Resolve a held submission. Only succeeds while the submission is still
+ * awaiting review, so two admins cannot both act on it.
+ *
+ * @returns The updated submission, or null if it was not awaiting review
+ */
+export async function resolveReview(
+    submissionId: string,
+    classification: 'valid' | 'rejected',
+    review: { reviewedBy: string; note?: string }
+): Promise<Submission | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            classification,
+            classification_reason: `Manual review: ${classification === 'valid' ? 'approved' : 'rejected'}${review.note ? ` - ${review.note}` : ''}`,
+            reviewed_at: new Date().toISOString(),
+            reviewed_by: review.reviewedBy,
+            review_note: review.note ?? null,
+        })
+        .eq('id', submissionId)
+        .eq('classification', 'needs_review')
+        .select()
+        .maybeSingle();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateSubmissionError('email', 'A valid submission already exists for this email in the campaign');
+    }
+
+    if (error) {
+        console.error('Error resolving review:', error);
+        throw new Error(`Failed to resolve review: ${error.message}`);
+    }
+
+    return data;
+}
+
+export interface SubmissionFilters {
+    classification?: SubmissionClassification;
+    campaignId?: string;
+    formId?: string;
+    emailSent?: boolean;
+    deliveryStatus?: EmailDeliveryStatus;
+    from?: string;
+    to?: string;
+    email?: string;
+}
+
+/**
+ * Select submissions matching the admin filters (shared by the list and the export)
+ */
+function selectFilteredSubmissions(filters: SubmissionFilters, options: { count?: 'exact' } = {}) {
+    const client = getSupabaseClient();
+    let query = client
+        .from('submissions')
+        .select('*', options);
+
+    if (filters.classification) query = query.eq('classification', filters.classification);
+    if (filters.campaignId) query = query.eq('campaign_id', filters.campaignId);
+    if (filters.formId) query = query.eq('form_id', filters.formId);
+    if (filters.emailSent !== undefined) query = query.eq('email_sent', filters.emailSent);
+    if (filters.deliveryStatus) query = query.eq('email_delivery_status', filters.deliveryStatus);
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lte('created_at', filters.to);
+    if (filters.email) query = query.ilike('email', `%${filters.email}%`);
+
+    return query;
+}
+
+/**
+ * List submissions matching the admin filters, newest first
+ */
+export async function listSubmissions(
+    filters: SubmissionFilters,
+    page: { limit: number; offset: number }
+): Promise<{ submissions: Submission[]; total: number }> {
+    const { data, count, error } = await selectFilteredSubmissions(filters, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(page.offset, page.offset + page.limit - 1);
+
+    if (error) {
+        console.error('Error listing submissions:', error);
+        throw new Error(`Failed to list submissions: ${error.message}`);
+    }
+
+    return { submissions: data || [], total: count ?? 0 };
+}
+
+/**
+ * List all campaigns
+ */
+export async function listCampaigns(): Promise<Campaign[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('campaigns')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error listing campaigns:', error);
+        throw new Error(`Failed to list campaigns: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * List the outbox entries for a submission, newest first
+ */
+export async function listOutboxEmailsForSubmission(submissionId: string): Promise<EmailOutboxEntry[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('email_outbox')
+        .select('*')
+        .eq('submission_id', submissionId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error listing outbox emails:', error);
+        throw new Error(`Failed to list outbox emails: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Correct a submission's email address (e.g. after a bounce), so later emails
+ * and duplicate checks use it
+ */
+export async function updateSubmissionEmail(
+    submissionId: string,
+    email: string,
+    emailCanonical: string
+): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('submissions')
+        .update({ email, email_canonical: emailCanonical })
+        .eq('id', submissionId);
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateSubmissionError('email', `Another valid submission in the campaign already uses ${email}`);
+    }
+    if (error) {
+        console.error('Error updating submission email:', error);
+        throw new Error(`Failed to update submission email: ${error.message}`);
+    }
+}
+
+/**
+ * Manually change a submission's classification
+ */
+export async function updateSubmissionClassification(
+    submissionId: string,
+    classification: SubmissionClassification,
+    review: { reviewedBy: string; note?: string }
+): Promise<Submission | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            classification,
+            classification_reason: `Manually reclassified as ${classification}${review.note ? ` - ${review.note}` : ''}`,
+            reviewed_at: new Date().toISOString(),
+            reviewed_by: review.reviewedBy,
+            review_note: review.note ?? null,
+        })
+        .eq('id', submissionId)
+        .select()
+        .maybeSingle();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateSubmissionError('email', 'A valid submission already exists for this email in the campaign');
+    }
+
+    if (error) {
+        console.error('Error updating submission classification:', error);
+        throw new Error(`Failed to update submission classification: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Clear a submission's reward so the lifecycle issues a fresh code, moving it
+ * from the given reward generation to the next one. Compare-and-set: nothing
+ * changes if another reissue got there first or a reward attempt holds the claim.
+ *
+ * @returns false if the submission was not reset
+ */
+export async function resetRewardForReissue(submissionId: string, generation: number): Promise<boolean> {
+    const leaseExpired = new Date(Date.now() - REWARD_CLAIM_LEASE_SECONDS * 1000).toISOString();
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            promo_code: null,
+            stripe_promotion_code_id: null,
+            reward_type: null,
+            reward_reference: null,
+            reward_data: null,
+            reward_generation: generation + 1,
+            reward_issue_started_at: null,
+            reward_expires_at: null,
+            reward_redeemed_at: null,
+            reward_paid_at: null,
+            reward_paid_amount: null,
+            reward_paid_currency: null,
+            stripe_customer_id: null,
+            reward_email_sent_at: null,
+            reward_reminders_sent: 0,
+            reward_next_reminder_at: null,
+            reward_reminders_done_at: null,
+            reward_status: 'pending',
+            reward_attempts: 0,
+            reward_error: null,
+            reward_claimed_at: null,
+            email_sent: false,
+            email_type: null,
+        })
+        .eq('id', submissionId)
+        .eq('reward_generation', generation)
+        .or(`reward_claimed_at.is.null,reward_claimed_at.lt.${leaseExpired}`)
+        .select('id');
+
+    if (error) {
+        console.error('Error resetting reward:', error);
+        throw new Error(`Failed to reset reward: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Fetch one page of answers for a form, oldest first, for analytics
+ */
+export async function listFormAnswers(
+    formId: string,
+    classifications: SubmissionClassification[],
+    page: { limit: number; offset: number },
+    formVersionId?: string
+): Promise<Pick<Submission, 'answers' | 'classification' | 'form_version_id'>[]> {
+    const client = getSupabaseClient();
+    let query = client
+        .from('submissions')
+        .select('answers, classification, form_version_id')
+        .eq('form_id', formId)
+        .in('classification', classifications);
+
+    if (formVersionId) {
+        query = query.eq('form_version_id', formVersionId);
+    }
+
+    const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(page.offset, page.offset + page.limit - 1);
+
+    if (error) {
+        console.error('Error listing form answers:', error);
+        throw new Error(`Failed to list form answers: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Fetch one page of submissions matching the admin filters, oldest first, for export
+ */
+export async function listSubmissionsForExport(
+    filters: SubmissionFilters,
+    page: { limit: number; offset: number }
+): Promise<Submission[]> {
+    const { data, error } = await selectFilteredSubmissions(filters)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(page.offset, page.offset + page.limit - 1);
+
+    if (error) {
+        console.error('Error listing submissions for export:', error);
+        throw new Error(`Failed to list submissions for export: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Assign an unused code from a pool to a submission.
+ * Returns the code already assigned to the submission if there is one.
+ *
+ * @returns null if the pool is exhausted
+ */
+export async function claimPoolCode(pool: string, submissionId: string): Promise<RewardPoolCode | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .rpc('claim_reward_pool_code', { p_pool: pool, p_submission_id: submissionId });
+
+    if (error) {
+        console.error('Error claiming pool code:', error);
+        throw new Error(`Failed to claim pool code: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? data[0] : null;
+}
+
+export async function getPoolCode(id: string): Promise<RewardPoolCode | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('reward_code_pool')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching pool code:', error);
+        throw new Error(`Failed to fetch pool code: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Revoke an assigned pool code. It stays tied to the submission and is never reassigned.
+ */
+export async function revokePoolCode(id: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('reward_code_pool')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) {
+        console.error('Error revoking pool code:', error);
+        throw new Error(`Failed to revoke pool code: ${error.message}`);
+    }
+}
+
+/**
+ * Add codes to a pool, skipping codes the pool already has
+ *
+ * @returns Number of codes added
+ */
+export async function insertPoolCodes(pool: string, codes: string[]): Promise<number> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('reward_code_pool')
+        .upsert(codes.map(code => ({ pool, code })), { onConflict: 'pool,code', ignoreDuplicates: true })
+        .select('id');
+
+    if (error) {
+        console.error('Error inserting pool codes:', error);
+        throw new Error(`Failed to insert pool codes: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+}
+
+/**
+ * Count codes in a pool not yet assigned to a submission
+ */
+export async function countAvailablePoolCodes(pool: string): Promise<number> {
+    const client = getSupabaseClient();
+    const { count, error } = await client
+        .from('reward_code_pool')
+        .select('id', { count: 'exact', head: true })
+        .eq('pool', pool)
+        .is('submission_id', null);
+
+    if (error) {
+        console.error('Error counting pool codes:', error);
+        throw new Error(`Failed to count pool codes: ${error.message}`);
+    }
+
+    return count ?? 0;
+}
+
+/**
+ * Enter a submission into a raffle (re-entering a withdrawn entry)
+ */
+export async function upsertRaffleEntry(
+    entry: Pick<RaffleEntry, 'raffle' | 'submission_id' | 'campaign_id' | 'email'>
+): Promise<RaffleEntry> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('raffle_entries')
+        .upsert({ ...entry, withdrawn_at: null }, { onConflict: 'submission_id' })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error entering raffle:', error);
+        throw new Error(`Failed to enter raffle: ${error.message}`);
+    }
+
+    return data;
+}
+
+export async function getRaffleEntry(id: string): Promise<RaffleEntry | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('raffle_entries')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching raffle entry:', error);
+        throw new Error(`Failed to fetch raffle entry: ${error.message}`);
+    }
+
+    return data;
+}
+
+export async function withdrawRaffleEntry(id: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('raffle_entries')
+        .update({ withdrawn_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) {
+        console.error('Error withdrawing raffle entry:', error);
+        throw new Error(`Failed to withdraw raffle entry: ${error.message}`);
+    }
+}
+
+/**
+ * Record the first redemption of a reward promotion code (Stripe webhook)
+ *
+ * @returns false if no submission owns the code or its redemption was already recorded
+ */
+export async function recordRewardRedemption(
+    stripePromotionCodeId: string,
+    redemption: { redeemedAt: string; customerId: string | null }
+): Promise<boolean> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            reward_redeemed_at: redemption.redeemedAt,
+            stripe_customer_id: redemption.customerId,
+        })
+        .eq('stripe_promotion_code_id', stripePromotionCodeId)
+        .is('reward_redeemed_at', null)
+        .select('id');
+
+    if (error) {
+        console.error('Error recording reward redemption:', error);
+        throw new Error(`Failed to record reward redemption: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Record the first paid invoice that used a reward promotion code (Stripe webhook)
+ *
+ * @returns false if no submission owns the code or a payment was already recorded
+ */
+export async function recordRewardPayment(
+    stripePromotionCodeId: string,
+    payment: { paidAt: string; amount: number; currency: string }
+): Promise<boolean> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            reward_paid_at: payment.paidAt,
+            reward_paid_amount: payment.amount,
+            reward_paid_currency: payment.currency,
+        })
+        .eq('stripe_promotion_code_id', stripePromotionCodeId)
+        .is('reward_paid_at', null)
+        .select('id');
+
+    if (error) {
+        console.error('Error recording reward payment:', error);
+        throw new Error(`Failed to record reward payment: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Rewarded submissions whose promotion code is unredeemed, unexpired and due
+ * for a reminder check (never scheduled, or scheduled time has passed)
+ */
+export async function findReminderCandidates(limit: number): Promise<Submission[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .rpc('find_reward_reminder_candidates', { p_limit: limit });
+
+    if (error) {
+        console.error('Error finding reminder candidates:', error);
+        throw new Error(`Failed to find reminder candidates: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Set when a submission is next checked for a reminder (null: no more reminders)
+ */
+export async function scheduleRewardReminder(submissionId: string, nextReminderAt: Date | null): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('submissions')
+        .update(nextReminderAt
+            ? { reward_next_reminder_at: nextReminderAt.toISOString() }
+            : { reward_next_reminder_at: null, reward_reminders_done_at: new Date().toISOString() })
+        .eq('id', submissionId);
+
+    if (error) {
+        console.error('Error scheduling reward reminder:', error);
+        throw new Error(`Failed to schedule reward reminder: ${error.message}`);
+    }
+}
+
+/**
+ * Count a queued reminder and schedule the next one (null: that was the last).
+ * Only applies if no other run counted this reminder first.
+ *
+ * @returns false if the reminder was already counted
+ */
+export async function recordRewardReminderQueued(
+    submissionId: string,
+    reminderNumber: number,
+    nextReminderAt: Date | null
+): Promise<boolean> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('submissions')
+        .update({
+            reward_reminders_sent: reminderNumber,
+            reward_next_reminder_at: nextReminderAt?.toISOString() ?? null,
+            ...(!nextReminderAt && { reward_reminders_done_at: new Date().toISOString() }),
+        })
+        .eq('id', submissionId)
+        .eq('reward_reminders_sent', reminderNumber - 1)
+        .select('id');
+
+    if (error) {
+        console.error('Error recording reward reminder:', error);
+        throw new Error(`Failed to record reward reminder: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+// A later event only replaces a delivery status of lower rank (e.g. opened
+// replaces delivered, but a late delivered never hides a bounce)
+const DELIVERY_STATUS_RANK: Record<EmailDeliveryStatus, number> = {
+    failed: 0,
+    delivered: 1,
+    opened: 2,
+    bounced: 3,
+    complained: 4,
+};
+
+function replaceableStatusFilter(column: string, status: EmailDeliveryStatus): string {
+    const lower = EMAIL_DELIVERY_STATUSES.filter(s => DELIVERY_STATUS_RANK[s] < DELIVERY_STATUS_RANK[status]);
+    return lower.length > 0 ? `${column}.is.null,${column}.in.(${lower.join(',')})` : `${column}.is.null`;
+}
+
+/**
+ * Mailgun returns message ids in angle brackets when sending, but reports them
+ * without in events; match either form
+ */
+function messageIdVariants(messageId: string): string[] {
+    const bare = messageId.replace(/^<|>$/g, '');
+    return [bare, `<${bare}>`];
+}
+
+/**
+ * Find the outbox entry a provider message id belongs to
+ */
+export async function findOutboxEmailByMessageId(messageId: string): Promise<EmailOutboxEntry | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('email_outbox')
+        .select('*')
+        .in('message_id', messageIdVariants(messageId))
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error finding outbox email by message id:', error);
+        throw new Error(`Failed to find outbox email: ${error.message}`);
+    }
+
+    return data;
+}
+
+export async function updateOutboxDeliveryStatus(entryId: string, status: EmailDeliveryStatus): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_outbox')
+        .update({ delivery_status: status, delivery_updated_at: new Date().toISOString() })
+        .eq('id', entryId)
+        .or(replaceableStatusFilter('delivery_status', status));
+
+    if (error) {
+        console.error('Error updating outbox delivery status:', error);
+        throw new Error(`Failed to update outbox delivery status: ${error.message}`);
+    }
+}
+
+/**
+ * Update the submission's delivery status, if the event is for its latest reward/abuse email
+ */
+export async function updateSubmissionDeliveryStatus(
+    submissionId: string,
+    messageId: string,
+    status: EmailDeliveryStatus,
+    detail: string | null
+): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('submissions')
+        .update({
+            email_delivery_status: status,
+            email_delivery_error: detail,
+            email_delivery_updated_at: new Date().toISOString(),
+        })
+        .eq('id', submissionId)
+        .in('email_message_id', messageIdVariants(messageId))
+        .or(replaceableStatusFilter('email_delivery_status', status));
+
+    if (error) {
+        console.error('Error updating submission delivery status:', error);
+        throw new Error(`Failed to update submission delivery status: ${error.message}`);
+    }
+}
+
+/**
+ * Log a provider event once. Returns false if it was already recorded (provider retry).
+ */
+export async function insertEmailEvent(event: EmailEvent): Promise<boolean> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('email_events')
+        .upsert(event, { onConflict: 'provider_event_id', ignoreDuplicates: true })
+        .select('id');
+
+    if (error) {
+        console.error('Error inserting email event:', error);
+        throw new Error(`Failed to insert email event: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+}
+
+export async function listEmailEventsForSubmission(submissionId: string): Promise<EmailEvent[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('email_events')
+        .select('*')
+        .eq('submission_id', submissionId)
+        .order('occurred_at', { ascending: true });
+
+    if (error) {
+        console.error('Error listing email events:', error);
+        throw new Error(`Failed to list email events: ${error.message}`);
+    }
+
+    return data || [];
+}
+
+/**
+ * Stop all future sends to an address (keeps the first reason recorded)
+ */
+export async function addEmailSuppression(
+    email: string,
+    reason: EmailSuppressionReason,
+    detail: string | null
+): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_suppressions')
+        .upsert({ email: email.trim().toLowerCase(), reason, detail }, { onConflict: 'email', ignoreDuplicates: true });
+
+    if (error) {
+        console.error('Error adding email suppression:', error);
+        throw new Error(`Failed to add email suppression: ${error.message}`);
+    }
+}
+
+export async function getEmailSuppression(email: string): Promise<EmailSuppression | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('email_suppressions')
+        .select('*')
+        .eq('email', email.trim().toLowerCase())
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching email suppression:', error);
+        throw new Error(`Failed to fetch email suppression: ${error.message}`);
+    }
+
+    return data;
+}
+
+export async function removeEmailSuppression(email: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client
+        .from('email_suppressions')
+        .delete()
+        .eq('email', email.trim().toLowerCase());
+
+    if (error) {
+        console.error('Error removing email suppression:', error);
+        throw new Error(`Failed to remove email suppression: ${error.message}`);
+    }
+}
+
+async function getFormVersionByHash(formId: string, contentHash: string): Promise<FormVersion | null> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', formId)
+        .eq('content_hash', contentHash)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching form version:', error);
+        throw new Error(`Failed to fetch form version: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Find the stored version with this content hash, or store it
+ *
+ * @returns The version, and whether this call created it
+ */
+export async function findOrCreateFormVersion(
+    version: Omit<FormVersion, 'id' | 'created_at'>
+): Promise<{ version: FormVersion; created: boolean }> {
+    const existing = await getFormVersionByHash(version.form_id, version.content_hash);
+    if (existing) {
+        return { version: existing, created: false };
+    }
+
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('form_versions')
+        .insert(version)
+        .select()
+        .single();
+
+    // A concurrent webhook stored the same version first
+    if (error?.code === UNIQUE_VIOLATION) {
+        const stored = await getFormVersionByHash(version.form_id, version.content_hash);
+        if (stored) {
+            return { version: stored, created: false };
+        }
+    }
+
+    if (error) {
+        console.error('Error inserting form version:', error);
+        throw new Error(`Failed to insert form version: ${error.message}`);
+    }
+
+    return { version: data, created: true };
+}
+
+/**
+ * All versions of a form, oldest first
+ */
+export async function listFormVersions(formId: string): Promise<FormVersion[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error listing form versions:', error);
+        throw new Error(`Failed to list form versions: ${error.message}`);
+    }
+
+    return data || [];
+}
@@ -0,0 +1,157 @@
+/**
+ * Tally Payload Parsing Tests
+ *
+ * Checks the value shape accepted for each field type, the issue paths reported
+ * for malformed bodies, and option resolution for every choice-like field.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseTallyPayload, resolveFieldValue, TallyField, TallyPayloadError } from './tally-payload';
+import tallyFormResponse from '../test/fixtures/tally-form-response.json';
+
+const OPTIONS = [
+    { id: 'opt-a', text: 'Alpha' },
+    { id: 'opt-b', text: 'Beta' },
+    { id: 'opt-c', text: 'Gamma' },
+];
+
+function withFields(fields: unknown[]): Record<string, unknown> {
+    const payload = structuredClone(tallyFormResponse) as Record<string, unknown>;
+    (payload.data as Record<string, unknown>).fields = fields;
+    return payload;
+}
+
+function field(type: string, value: unknown, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    return { key: `question_${type.toLowerCase()}`, label: type, type, value, ...extra };
+}
+
+function issuesOf(body: unknown) {
+    try {
+        parseTallyPayload(body);
+    } catch (error) {
+        if (error instanceof TallyPayloadError) return error.issues;
+        throw error;
+    }
+    throw new Error('Expected the payload to be rejected');
+}
+
+describe('parseTallyPayload', () => {
+    it('accepts the fixture form response', () => {
+        const result = parseTallyPayload(structuredClone(tallyFormResponse));
+        expect(result.event).toBe('form_response');
+    });
+
+    it('ignores event types other than FORM_RESPONSE without checking their data', () => {
+        const result = parseTallyPayload({
+            eventId: 'evt_1',
+            eventType: 'FORM_DELETED',
+            createdAt: '2026-01-25T11:47:51.316Z',
+            data: 'anything',
+        });
+        expect(result).toEqual({ event: 'ignored', eventId: 'evt_1', eventType: 'FORM_DELETED' });
+    });
+
+    it('rejects a body that is not an object', () => {
+        expect(issuesOf([])).toEqual([{ path: '(body)', message: 'must be an object, got array' }]);
+    });
+
+    it('lists every failing path', () => {
+        const payload = structuredClone(tallyFormResponse) as Record<string, any>;
+        delete payload.eventId;
+        payload.data.createdAt = 'yesterday';
+        payload.data.fields[0].label = 42;
+        payload.data.fields[1].type = 'SLIDER';
+
+        expect(issuesOf(payload)).toEqual([
+            { path: 'eventId', message: 'must be a string, got undefined' },
+            { path: 'data.createdAt', message: 'must be an ISO timestamp' },
+            { path: 'data.fields[0].label', message: 'must be a string, got number' },
+            { path: 'data.fields[1].type', message: 'is not a supported field type: SLIDER' },
+        ]);
+    });
+
+    it('accepts null for every field type', () => {
+        const fields = ['INPUT_TEXT', 'INPUT_NUMBER', 'CHECKBOXES', 'RANKING', 'MATRIX', 'FILE_UPLOAD', 'PAYMENT']
+            .map(type => field(type, null));
+        expect(parseTallyPayload(withFields(fields)).event).toBe('form_response');
+    });
+
+    it.each([
+        ['INPUT_TEXT', 7, 'data.fields[0].value', 'must be a string, got number'],
+        ['INPUT_NUMBER', '7', 'data.fields[0].value', 'must be a number, got string'],
+        ['LINEAR_SCALE', [3], 'data.fields[0].value', 'must be a number, got array'],
+        ['CALCULATED_FIELDS', true, 'data.fields[0].value', 'must be a number or string, got boolean'],
+        ['FILE_UPLOAD', [{ name: 'cv.pdf' }], 'data.fields[0].value[0].url', 'must be a string, got undefined'],
+        ['PAYMENT', { price: '10', currency: 'EUR' }, 'data.fields[0].value.price', 'must be a number, got string'],
+    ])('rejects a %s value of the wrong shape', (type, value, path, message) => {
+        expect(issuesOf(withFields([field(type, value)]))).toEqual([{ path, message }]);
+    });
+
+    it.each(['MULTIPLE_CHOICE', 'DROPDOWN', 'CHECKBOXES', 'MULTI_SELECT', 'RANKING'])(
+        'checks %s answers against the field options',
+        type => {
+            expect(issuesOf(withFields([field(type, ['opt-a', 'opt-x'], { options: OPTIONS })]))).toEqual([
+                { path: 'data.fields[0].value[1]', message: 'is not one of the field\'s options: opt-x' },
+            ]);
+            expect(issuesOf(withFields([field(type, ['opt-a'])]))).toEqual([
+                { path: 'data.fields[0].options', message: 'must be an array of options, got undefined' },
+            ]);
+        }
+    );
+
+    it('accepts the boolean per-option CHECKBOXES sub-fields', () => {
+        const subField = field('CHECKBOXES', true, { key: 'question_checkboxes_opt-a' });
+        expect(parseTallyPayload(withFields([subField])).event).toBe('form_response');
+    });
+
+    it('checks MATRIX answers against its rows and columns', () => {
+        const matrix = field('MATRIX', { 'row-1': ['opt-a'], 'row-9': ['opt-b'], 'row-2': ['opt-z'] }, {
+            rows: [{ id: 'row-1', text: 'Speed' }, { id: 'row-2', text: 'Quality' }],
+            columns: OPTIONS,
+        });
+        expect(issuesOf(withFields([matrix]))).toEqual([
+            { path: 'data.fields[0].value.row-9', message: 'is not one of the field\'s rows' },
+            { path: 'data.fields[0].value.row-2[0]', message: 'is not one of the field\'s options: opt-z' },
+        ]);
+    });
+});
+
+describe('resolveFieldValue', () => {
+    function resolve(type: string, value: unknown, extra: Record<string, unknown> = {}) {
+        return resolveFieldValue(field(type, value, { options: OPTIONS, ...extra }) as unknown as TallyField);
+    }
+
+    it('collapses a single MULTIPLE_CHOICE or DROPDOWN selection to its text', () => {
+        expect(resolve('MULTIPLE_CHOICE', ['opt-b'])).toBe('Beta');
+        expect(resolve('DROPDOWN', ['opt-c'])).toBe('Gamma');
+        expect(resolve('MULTIPLE_CHOICE', ['opt-a', 'opt-b'])).toEqual(['Alpha', 'Beta']);
+    });
+
+    it('keeps CHECKBOXES and MULTI_SELECT answers as lists', () => {
+        expect(resolve('CHECKBOXES', ['opt-a'])).toEqual(['Alpha']);
+        expect(resolve('MULTI_SELECT', ['opt-a', 'opt-c'])).toEqual(['Alpha', 'Gamma']);
+        expect(resolve('CHECKBOXES', true)).toBe(true);
+    });
+
+    it('keeps the RANKING order', () => {
+        expect(resolve('RANKING', ['opt-c', 'opt-a', 'opt-b'])).toEqual(['Gamma', 'Alpha', 'Beta']);
+    });
+
+    it('resolves MATRIX rows and columns', () => {
+        const rows = [{ id: 'row-1', text: 'Speed' }, { id: 'row-2', text: 'Quality' }];
+        expect(resolve('MATRIX', { 'row-1': ['opt-a'], 'row-2': ['opt-b', 'opt-c'] }, { rows, columns: OPTIONS }))
+            .toEqual(['Speed: Alpha', 'Quality: Beta, Gamma']);
+    });
+
+    it('resolves files to their URLs and payments to price and currency', () => {
+        expect(resolve('FILE_UPLOAD', [{ name: 'cv.pdf', url: 'https://storage.tally.so/cv.pdf' }]))
+            .toEqual(['https://storage.tally.so/cv.pdf']);
+        expect(resolve('PAYMENT', { price: 10, currency: 'EUR' })).toBe('10 EUR');
+    });
+
+    it('passes other values through', () => {
+        expect(resolve('LINEAR_SCALE', 4)).toBe(4);
+        expect(resolve('INPUT_TEXT', 'hello')).toBe('hello');
+        expect(resolve('INPUT_TEXT', null)).toBeNull();
+    });
+});
@@ -0,0 +1,365 @@
+/**
+ * Tally Payload Parsing
+ *
+ * Validates webhook bodies from Tally before anything else touches them:
+ * - Envelope: eventId, eventType, createdAt and, for FORM_RESPONSE events, the response data
+ * - Fields: every Tally field type has an expected value shape, unknown types are rejected
+ * - Options: choice, ranking and matrix answers must reference the options sent with the field
+ *
+ * Events other than FORM_RESPONSE are returned as ignored without validating their data.
+ * Invalid bodies throw a TallyPayloadError listing every failing path.
+ */
+
+export const TALLY_FIELD_TYPES = [
+    'INPUT_TEXT',
+    'INPUT_NUMBER',
+    'INPUT_EMAIL',
+    'INPUT_PHONE_NUMBER',
+    'INPUT_LINK',
+    'INPUT_DATE',
+    'INPUT_TIME',
+    'TEXTAREA',
+    'MULTIPLE_CHOICE',
+    'DROPDOWN',
+    'CHECKBOXES',
+    'MULTI_SELECT',
+    'RANKING',
+    'LINEAR_SCALE',
+    'RATING',
+    'MATRIX',
+    'FILE_UPLOAD',
+    'SIGNATURE',
+    'PAYMENT',
+    'HIDDEN_FIELDS',
+    'CALCULATED_FIELDS',
+] as const;
+
+export type TallyFieldType = typeof TALLY_FIELD_TYPES[number];
+
+export interface TallyFieldOption {
+    id: string;
+    text: string;
+    isOtherOption?: boolean;
+    optionId?: string;
+}
+
+export interface TallyFile {
+    id?: string;
+    name: string;
+    url: string;
+    mimeType?: string;
+    size?: number;
+}
+
+export interface TallyPayment {
+    price: number;
+    currency: string;
+    name?: string;
+    email?: string;
+    link?: string;
+}
+
+export interface TallyField {
+    key: string;
+    label: string;
+    type: TallyFieldType;
+    value: unknown;
+    options?: TallyFieldOption[];
+    // MATRIX only: value maps row ids to the selected column ids
+    rows?: TallyFieldOption[];
+    columns?: TallyFieldOption[];
+}
+
+export interface TallyWebhookPayload {
+    eventId: string;
+    eventType: 'FORM_RESPONSE';
+    createdAt: string;
+    data: {
+        responseId: string;
+        submissionId?: string;
+        respondentId?: string;
+        formId: string;
+        formName: string;
+        createdAt: string;
+        fields: TallyField[];
+    };
+}
+
+export type TallyParseResult =
+    | { event: 'form_response'; payload: TallyWebhookPayload }
+    | { event: 'ignored'; eventId: string; eventType: string };
+
+/**
+ * Display value of an answer: option ids resolved to their text, files to
+ * their URLs, payments to "price currency"
+ */
+export type AnswerValue = string | number | boolean | string[] | null;
+
+export interface PayloadIssue {
+    path: string;
+    message: string;
+}
+
+export class TallyPayloadError extends Error {
+    constructor(public readonly issues: PayloadIssue[]) {
+        super(`Invalid Tally payload: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+        this.name = 'TallyPayloadError';
+    }
+}
+
+// Single-selection choices are stored as a plain string, like MULTIPLE_CHOICE always was
+const SINGLE_CHOICE_TYPES: TallyFieldType[] = ['MULTIPLE_CHOICE', 'DROPDOWN'];
+const MULTI_CHOICE_TYPES: TallyFieldType[] = ['CHECKBOXES', 'MULTI_SELECT', 'RANKING'];
+const TEXT_TYPES: TallyFieldType[] = [
+    'INPUT_TEXT', 'INPUT_EMAIL', 'INPUT_PHONE_NUMBER', 'INPUT_LINK',
+    'INPUT_DATE', 'INPUT_TIME', 'TEXTAREA', 'HIDDEN_FIELDS',
+];
+const NUMBER_TYPES: TallyFieldType[] = ['INPUT_NUMBER', 'LINEAR_SCALE', 'RATING'];
+
+type Issues = PayloadIssue[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function expectString(issues: Issues, path: string, value: unknown, optional = false): void {
+    if (optional && (value === undefined || value === null)) return;
+    if (typeof value !== 'string') {
+        issues.push({ path, message: `must be a string, got ${typeName(value)}` });
+    }
+}
+
+function expectTimestamp(issues: Issues, path: string, value: unknown): void {
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+        issues.push({ path, message: 'must be an ISO timestamp' });
+    }
+}
+
+function checkOptions(issues: Issues, path: string, value: unknown): value is TallyFieldOption[] {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array of options, got ${typeName(value)}` });
+        return false;
+    }
+
+    const before = issues.length;
+    value.forEach((option, index) => {
+        if (!isRecord(option)) {
+            issues.push({ path: `${path}[${index}]`, message: `must be an object, got ${typeName(option)}` });
+            return;
+        }
+        expectString(issues, `${path}[${index}].id`, option.id);
+        expectString(issues, `${path}[${index}].text`, option.text);
+    });
+    return issues.length === before;
+}
+
+function checkOptionIds(issues: Issues, path: string, value: unknown, options: TallyFieldOption[] | null): void {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array of option ids, got ${typeName(value)}` });
+        return;
+    }
+
+    const known = options ? new Set(options.map(o => o.id)) : null;
+    value.forEach((id, index) => {
+        if (typeof id !== 'string') {
+            issues.push({ path: `${path}[${index}]`, message: `must be an option id, got ${typeName(id)}` });
+        } else if (known && !known.has(id)) {
+            issues.push({ path: `${path}[${index}]`, message: `is not one of the field's options: ${id}` });
+        }
+    });
+}
+
+function checkChoiceValue(issues: Issues, path: string, field: Record<string, unknown>): void {
+    // CHECKBOXES also arrive as one boolean sub-field per option (key "<question>_<optionId>")
+    if (field.type === 'CHECKBOXES' && typeof field.value === 'boolean') return;
+
+    const options = checkOptions(issues, `${path}.options`, field.options) ? field.options : null;
+    checkOptionIds(issues, `${path}.value`, field.value, options);
+}
+
+function checkMatrixValue(issues: Issues, path: string, field: Record<string, unknown>): void {
+    const rows = checkOptions(issues, `${path}.rows`, field.rows) ? field.rows : null;
+    const columns = checkOptions(issues, `${path}.columns`, field.columns) ? field.columns : null;
+
+    if (!isRecord(field.value)) {
+        issues.push({ path: `${path}.value`, message: `must be an object of row ids to column ids, got ${typeName(field.value)}` });
+        return;
+    }
+
+    const rowIds = rows ? new Set(rows.map(r => r.id)) : null;
+    for (const [rowId, selected] of Object.entries(field.value)) {
+        if (rowIds && !rowIds.has(rowId)) {
+            issues.push({ path: `${path}.value.${rowId}`, message: 'is not one of the field\'s rows' });
+            continue;
+        }
+        checkOptionIds(issues, `${path}.value.${rowId}`, selected, columns);
+    }
+}
+
+function checkFilesValue(issues: Issues, path: string, value: unknown): void {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array of files, got ${typeName(value)}` });
+        return;
+    }
+
+    value.forEach((file, index) => {
+        if (!isRecord(file)) {
+            issues.push({ path: `${path}[${index}]`, message: `must be a file object, got ${typeName(file)}` });
+            return;
+        }
+        expectString(issues, `${path}[${index}].name`, file.name);
+        expectString(issues, `${path}[${index}].url`, file.url);
+    });
+}
+
+function checkPaymentValue(issues: Issues, path: string, value: unknown): void {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `must be a payment object, got ${typeName(value)}` });
+        return;
+    }
+    if (typeof value.price !== 'number') {
+        issues.push({ path: `${path}.price`, message: `must be a number, got ${typeName(value.price)}` });
+    }
+    expectString(issues, `${path}.currency`, value.currency);
+}
+
+/**
+ * Check one field's value against the shape Tally sends for its type
+ * (unanswered fields are null for every type)
+ */
+function checkFieldValue(issues: Issues, path: string, field: Record<string, unknown>, type: TallyFieldType): void {
+    const valuePath = `${path}.value`;
+    if (field.value === null || field.value === undefined) return;
+
+    if (TEXT_TYPES.includes(type)) {
+        expectString(issues, valuePath, field.value);
+    } else if (NUMBER_TYPES.includes(type)) {
+        if (typeof field.value !== 'number') {
+            issues.push({ path: valuePath, message: `must be a number, got ${typeName(field.value)}` });
+        }
+    } else if (SINGLE_CHOICE_TYPES.includes(type) || MULTI_CHOICE_TYPES.includes(type)) {
+        checkChoiceValue(issues, path, field);
+    } else if (type === 'MATRIX') {
+        checkMatrixValue(issues, path, field);
+    } else if (type === 'FILE_UPLOAD' || type === 'SIGNATURE') {
+        checkFilesValue(issues, valuePath, field.value);
+    } else if (type === 'PAYMENT') {
+        checkPaymentValue(issues, valuePath, field.value);
+    } else if (type === 'CALCULATED_FIELDS') {
+        if (typeof field.value !== 'number' && typeof field.value !== 'string') {
+            issues.push({ path: valuePath, message: `must be a number or string, got ${typeName(field.value)}` });
+        }
+    }
+}
+
+function checkField(issues: Issues, path: string, field: unknown): void {
+    if (!isRecord(field)) {
+        issues.push({ path, message: `must be an object, got ${typeName(field)}` });
+        return;
+    }
+
+    expectString(issues, `${path}.key`, field.key);
+    expectString(issues, `${path}.label`, field.label);
+
+    if (typeof field.type !== 'string') {
+        issues.push({ path: `${path}.type`, message: `must be a string, got ${typeName(field.type)}` });
+    } else if (!(TALLY_FIELD_TYPES as readonly string[]).includes(field.type)) {
+        issues.push({ path: `${path}.type`, message: `is not a supported field type: ${field.type}` });
+    } else {
+        checkFieldValue(issues, path, field, field.type as TallyFieldType);
+    }
+}
+
+function checkFormResponse(issues: Issues, data: unknown): void {
+    if (!isRecord(data)) {
+        issues.push({ path: 'data', message: `must be an object, got ${typeName(data)}` });
+        return;
+    }
+
+    expectString(issues, 'data.responseId', data.responseId);
+    expectString(issues, 'data.submissionId', data.submissionId, true);
+    expectString(issues, 'data.respondentId', data.respondentId, true);
+    expectString(issues, 'data.formId', data.formId);
+    expectString(issues, 'data.formName', data.formName);
+    expectTimestamp(issues, 'data.createdAt', data.createdAt);
+
+    if (!Array.isArray(data.fields)) {
+        issues.push({ path: 'data.fields', message: `must be an array, got ${typeName(data.fields)}` });
+        return;
+    }
+    data.fields.forEach((field, index) => checkField(issues, `data.fields[${index}]`, field));
+}
+
+/**
+ * Validate a parsed webhook body. Returns the typed payload for FORM_RESPONSE
+ * events, marks any other event type as ignored, and throws a TallyPayloadError
+ * listing every failing path otherwise.
+ */
+export function parseTallyPayload(body: unknown): TallyParseResult {
+    const issues: Issues = [];
+
+    if (!isRecord(body)) {
+        throw new TallyPayloadError([{ path: '(body)', message: `must be an object, got ${typeName(body)}` }]);
+    }
+
+    expectString(issues, 'eventId', body.eventId);
+    expectString(issues, 'eventType', body.eventType);
+    expectTimestamp(issues, 'createdAt', body.createdAt);
+
+    if (issues.length === 0 && body.eventType !== 'FORM_RESPONSE') {
+        return { event: 'ignored', eventId: body.eventId as string, eventType: body.eventType as string };
+    }
+
+    checkFormResponse(issues, body.data);
+    if (issues.length > 0) {
+        throw new TallyPayloadError(issues);
+    }
+
+    return { event: 'form_response', payload: body as unknown as TallyWebhookPayload };
+}
+
+function optionText(options: TallyFieldOption[] | undefined, id: string): string {
+    return options?.find(option => option.id === id)?.text ?? id;
+}
+
+/**
+ * Resolve a validated field's value for display and storage: option ids become
+ * their text (single choices collapse to a string, RANKING keeps its order),
+ * MATRIX answers become "row: column" entries
+ */
+export function resolveFieldValue(field: TallyField): AnswerValue {
+    const { value } = field;
+    if (value === null || value === undefined) {
+        return null;
+    }
+
+    if (SINGLE_CHOICE_TYPES.includes(field.type) || MULTI_CHOICE_TYPES.includes(field.type)) {
+        if (!Array.isArray(value)) {
+            return value as boolean; // CHECKBOXES per-option sub-field
+        }
+        const resolved = (value as string[]).map(id => optionText(field.options, id));
+        return SINGLE_CHOICE_TYPES.includes(field.type) && resolved.length === 1 ? resolved[0] : resolved;
+    }
+
+    switch (field.type) {
+        case 'MATRIX':
+            return Object.entries(value as Record<string, string[]>).map(
+                ([rowId, columnIds]) => `${optionText(field.rows, rowId)}: ${columnIds.map(id => optionText(field.columns, id)).join(', ')}`
+            );
+        case 'FILE_UPLOAD':
+        case 'SIGNATURE':
+            return (value as TallyFile[]).map(file => file.url);
+        case 'PAYMENT': {
+            const payment = value as TallyPayment;
+            return `${payment.price} ${payment.currency}`;
+        }
+        default:
+            return value as string | number;
+    }
+}
@@ -3,47 +3,54 @@
  * 
  * Processes incoming survey data and determines validity:
  * - Attention-check: Decoy questions that must be answered correctly
- * - Duplicate detection: Same email submitted multiple times
- * 
- * Note: Bot detection is handled by Tally's built-in CAPTCHA
+ * - Email screening: Disposable domains (per DISPOSABLE_EMAIL_POLICY) and aliases
+ * - Duplicate detection: Same canonical email submitted multiple times within a campaign
+ * - Manual review: Borderline signals hold the submission for an admin (needs_review)
+ * - Bot heuristics: Timing, straight-lining, fingerprints, disposable emails
+ *   (see bot-detection.ts; complements Tally's built-in CAPTCHA)
  */
 
-import { checkDuplicateEmail } from './supabase';
+import { findExistingSubmission, DuplicateReason, EmailFlag } from './supabase';
+import { canonicalizeEmail, isAliasedEmail } from './email-normalization';
+import { isDisposableEmail, getDisposableEmailPolicy } from './disposable-domains';
+import { assessBotLikelihood, BotAssessment } from './bot-detection';
+import { evaluateAttentionChecks, AttentionEvaluation } from './attention-checks';
+import type { ResolvedCampaign } from './campaigns';
+import type { NormalizedAnswer } from './answers';
 
-// Attention check question identifier (appears in all branches)
-const ATTENTION_CHECK_LABEL_PATTERN = 'have you been paying attention';
-const ATTENTION_CHECK_CORRECT_ANSWER = 'Yes';
+// Bot scores from here up to BOT_SCORE_THRESHOLD are held for manual review
+const REVIEW_SCORE_THRESHOLD = 0.5;
 
 export type ClassificationResult = {
-    classification: 'valid' | 'attention_fail' | 'duplicate';
+    classification: 'valid' | 'attention_fail' | 'duplicate' | 'bot' | 'rejected' | 'needs_review';
     reason: string;
-};
-
-export interface TallyAnswer {
-    field: {
-        id: string;
-        title: string;
-        type: string;
+    emailCanonical?: string;
+    emailFlags?: EmailFlag[];
+    bot?: BotAssessment;
+    attention?: AttentionEvaluation;
+    duplicate?: {
+        of: string;
+        reason: DuplicateReason;
     };
-    value: unknown;
-}
+};
 
 export interface TallySubmission {
     responseId: string;
+    formId?: string;
     respondentId?: string;
     submittedAt: string;
     createdAt: string;
-    fields: TallyAnswer[];
+    answers: NormalizedAnswer[];
 }
 
 /**
  * Extract email from Tally submission fields
  */
-export function extractEmail(fields: TallyAnswer[]): string | null {
-    const emailField = fields.find(
-        f => f.field.type === 'INPUT_EMAIL' ||
-            (f.field.id && f.field.id.toLowerCase().includes('email')) ||
-            (f.field.title && f.field.title.toLowerCase().includes('email'))
+export function extractEmail(answers: NormalizedAnswer[]): string | null {
+    const emailField = answers.find(
+        a => a.type === 'INPUT_EMAIL' ||
+            (a.key && a.key.toLowerCase().includes('email')) ||
+            (a.title && a.title.toLowerCase().includes('email'))
     );
 
     if (emailField && typeof emailField.value === 'string') {
@@ -53,72 +60,106 @@ export function extractEmail(fields: TallyAnswer[]): string | null {
     return null;
 }
 
-/**
- * Check if attention check question was answered correctly
- * The question appears in multiple branches with the same text:
- * "In the world of AI, we get results in a blink of an eye. This might undermine our attention spans. Have you been paying attention?"
- * The correct answer is "Yes"
- */
-function checkAttentionAnswer(fields: TallyAnswer[]): boolean {
-    // Find attention check field(s) by label - there might be multiple (one per branch)
-    // We only need to check the one that was actually answered (value is not null)
-    const attentionField = fields.find(
-        f => f.field.title &&
-            f.field.title.toLowerCase().includes(ATTENTION_CHECK_LABEL_PATTERN) &&
-            f.value !== null && f.value !== undefined
-    );
-
-    if (!attentionField) {
-        console.warn('[Validation] No answered attention check field found');
-        return false;
-    }
-
-    // Handle different value types from Tally (usually array of UUIDs for MULTIPLE_CHOICE)
-    let answer: string;
-    if (typeof attentionField.value === 'string') {
-        answer = attentionField.value;
-    } else if (Array.isArray(attentionField.value)) {
-        answer = attentionField.value[0]?.toString() || '';
-    } else {
-        answer = String(attentionField.value);
-    }
-
-    // Known "Yes" option UUIDs from each branch
-    const yesOptionIds = [
-        'd52b3b5d-e0cd-454c-afa3-15276ea5b2ef', // Branch 1
-        'ec4062ef-8d35-40f9-8afc-0bb67d41b086', // Branch 2
-        '875f4d5a-728d-40ce-91ef-ac72f9067627', // Branch 3
-        '8d7272ab-3489-48fe-bc74-63573d026123', // Branch 4
-    ];
-
-    return yesOptionIds.includes(answer);
-}
-
 /**
  * Main validation function - classifies a submission
  */
 export async function validateSubmission(
-    submission: TallySubmission
+    submission: TallySubmission,
+    campaign: ResolvedCampaign
 ): Promise<ClassificationResult> {
-    const { fields } = submission;
+    const { answers } = submission;
 
-    // 1. Check for duplicate email
-    const email = extractEmail(fields);
+    const email = extractEmail(answers);
+    const emailCanonical = email ? canonicalizeEmail(email) : undefined;
+    const emailFlags: EmailFlag[] = [];
+
+    // 1. Screen the email address
     if (email) {
-        const isDuplicate = await checkDuplicateEmail(email);
-        if (isDuplicate) {
+        if (isAliasedEmail(email)) {
+            emailFlags.push('aliased_address');
+        }
+
+        if (isDisposableEmail(email)) {
+            const policy = getDisposableEmailPolicy();
+            if (policy === 'reject') {
+                return {
+                    classification: 'rejected',
+                    reason: `Disposable email domain rejected by policy: ${email.split('@').pop()}`,
+                    emailCanonical,
+                    emailFlags: [...emailFlags, 'disposable_domain'],
+                };
+            }
+            if (policy === 'review') {
+                emailFlags.push('disposable_domain');
+            }
+        }
+    }
+
+    // 2. Check for duplicate email (aliases of the same mailbox count as the same email)
+    if (email && emailCanonical) {
+        const existing = await findExistingSubmission(emailCanonical, campaign.campaignId);
+        if (existing) {
+            const isAlias = existing.email.toLowerCase() !== email;
             return {
                 classification: 'duplicate',
-                reason: 'Duplicate email submission detected',
+                reason: isAlias
+                    ? `Alias of an earlier submission from ${existing.email}`
+                    : 'Duplicate email submission detected',
+                emailCanonical,
+                emailFlags,
+                duplicate: {
+                    of: existing.id,
+                    reason: isAlias ? 'alias_already_submitted' : 'email_already_submitted',
+                },
             };
         }
     }
 
-    // 2. Check attention question (human abuse detection)
-    if (!checkAttentionAnswer(fields)) {
+    // 3. Score bot heuristics
+    const bot = await assessBotLikelihood(submission, email);
+    if (bot.isBot) {
+        return {
+            classification: 'bot',
+            reason: `Bot score ${bot.score}: ${bot.signals.map(s => s.reason).join('; ')}`,
+            emailCanonical,
+            emailFlags,
+            bot,
+        };
+    }
+
+    // 4. Check attention questions (human abuse detection)
+    const attention = evaluateAttentionChecks(answers, campaign.attentionChecks);
+    if (!attention.passed) {
         return {
             classification: 'attention_fail',
-            reason: 'Failed attention check question',
+            reason: `Failed attention check (${attention.passCount}/${attention.requiredPasses} required passes)`,
+            emailCanonical,
+            emailFlags,
+            bot,
+            attention,
+        };
+    }
+
+    // 5. Hold borderline submissions for manual review
+    const reviewReasons: string[] = [];
+    if (bot.score >= REVIEW_SCORE_THRESHOLD) {
+        reviewReasons.push(`Elevated bot score ${bot.score}: ${bot.signals.map(s => s.reason).join('; ')}`);
+    }
+    if (emailFlags.includes('disposable_domain')) {
+        reviewReasons.push('Disposable email domain');
+    }
+    if (attention.outcomes.some(o => o.status === 'failed')) {
+        reviewReasons.push(`Failed ${attention.outcomes.filter(o => o.status === 'failed').length} of ${attention.outcomes.length} attention checks`);
+    }
+
+    if (reviewReasons.length > 0) {
+        return {
+            classification: 'needs_review',
+            reason: reviewReasons.join('; '),
+            emailCanonical,
+            emailFlags,
+            bot,
+            attention,
         };
     }
 
@@ -126,22 +167,9 @@ export async function validateSubmission(
     return {
         classification: 'valid',
         reason: 'All validation checks passed',
+        emailCanonical,
+        emailFlags,
+        bot,
+        attention,
     };
 }
-
-/**
- * Convert Tally fields to a simple key-value object for storage
- */
-export function fieldsToAnswers(fields: TallyAnswer[]): Record<string, unknown> {
-    const answers: Record<string, unknown> = {};
-
-    for (const field of fields) {
-        answers[field.field.id] = {
-            title: field.field.title,
-            type: field.field.type,
-            value: field.value,
-        };
-    }
-
-    return answers;
-}
@@ -0,0 +1,199 @@
+/**
+ * Webhook Authentication
+ *
+ * Verifies that incoming webhook requests originate from the expected sender:
+ * - Tally: HMAC-SHA256 signature of the raw body in the Tally-Signature header
+ * - Supabase: shared secret sent as a custom header by the database webhook
+ * - Mailgun: HMAC-SHA256 signature of timestamp + token in the event body
+ * - Vercel Cron: bearer token (CRON_SECRET) in the Authorization header
+ * - Admin API: bearer token (ADMIN_API_TOKEN) in the Authorization header
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const TALLY_SIGNATURE_HEADER = 'tally-signature';
+export const SUPABASE_WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+export interface WebhookVerificationResult {
+    verified: boolean;
+    reason?: string;
+}
+
+function getTallyWebhookSecret(): string {
+    const secret = process.env.TALLY_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new Error('Missing TALLY_WEBHOOK_SECRET environment variable');
+    }
+    return secret;
+}
+
+function getSupabaseWebhookSecret(): string {
+    const secret = process.env.SUPABASE_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new Error('Missing SUPABASE_WEBHOOK_SECRET environment variable');
+    }
+    return secret;
+}
+
+function getMailgunWebhookSigningKey(): string {
+    const key = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+    if (!key) {
+        throw new Error('Missing MAILGUN_WEBHOOK_SIGNING_KEY environment variable');
+    }
+    return key;
+}
+
+function getCronSecret(): string {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        throw new Error('Missing CRON_SECRET environment variable');
+    }
+    return secret;
+}
+
+function getAdminApiToken(): string {
+    const token = process.env.ADMIN_API_TOKEN;
+    if (!token) {
+        throw new Error('Missing ADMIN_API_TOKEN environment variable');
+    }
+    return token;
+}
+
+/**
+ * Test mode skips signature verification so captured payloads (e.g. from logs.txt)
+ * can be replayed locally. It is never honored in production builds.
+ */
+export function isTallyTestMode(): boolean {
+    if (process.env.TALLY_WEBHOOK_TEST_MODE !== 'true') {
+        return false;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+        console.warn('[Webhook Auth] TALLY_WEBHOOK_TEST_MODE is ignored in production');
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeCompare(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    if (bufferA.length !== bufferB.length) {
+        return false;
+    }
+
+    return timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verify the Tally-Signature header against the raw request body
+ *
+ * Tally signs the exact body it sends with the form's signing secret:
+ * base64(HMAC-SHA256(secret, rawBody))
+ */
+export function verifyTallySignature(
+    rawBody: string,
+    signature: string | null
+): WebhookVerificationResult {
+    if (isTallyTestMode()) {
+        console.warn('[Webhook Auth] Tally test mode enabled - skipping signature verification');
+        return { verified: true, reason: 'Test mode' };
+    }
+
+    if (!signature) {
+        return { verified: false, reason: 'Missing Tally-Signature header' };
+    }
+
+    const expectedSignature = createHmac('sha256', getTallyWebhookSecret())
+        .update(rawBody)
+        .digest('base64');
+
+    if (!safeCompare(signature, expectedSignature)) {
+        return { verified: false, reason: 'Signature mismatch' };
+    }
+
+    return { verified: true };
+}
+
+/**
+ * Verify the shared secret header configured on the Supabase database webhook
+ */
+export function verifySupabaseWebhookSecret(secret: string | null): WebhookVerificationResult {
+    if (!secret) {
+        return { verified: false, reason: 'Missing X-Webhook-Secret header' };
+    }
+
+    if (!safeCompare(secret, getSupabaseWebhookSecret())) {
+        return { verified: false, reason: 'Secret mismatch' };
+    }
+
+    return { verified: true };
+}
+
+/**
+ * The `signature` object Mailgun includes in every webhook body
+ */
+export interface MailgunSignature {
+    timestamp: string;
+    token: string;
+    signature: string;
+}
+
+// Reject signatures older than this, so a captured request can't be replayed later
+const MAILGUN_SIGNATURE_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Verify a Mailgun webhook signature:
+ * hex(HMAC-SHA256(webhook signing key, timestamp + token))
+ */
+export function verifyMailgunSignature(signature: MailgunSignature | null | undefined): WebhookVerificationResult {
+    if (!signature?.timestamp || !signature.token || !signature.signature) {
+        return { verified: false, reason: 'Missing signature' };
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(signature.timestamp));
+    if (!(age <= MAILGUN_SIGNATURE_MAX_AGE_SECONDS)) {
+        return { verified: false, reason: 'Stale timestamp' };
+    }
+
+    const expectedSignature = createHmac('sha256', getMailgunWebhookSigningKey())
+        .update(signature.timestamp + signature.token)
+        .digest('hex');
+
+    if (!safeCompare(signature.signature, expectedSignature)) {
+        return { verified: false, reason: 'Signature mismatch' };
+    }
+
+    return { verified: true };
+}
+
+function verifyBearerToken(authorization: string | null, expected: string): WebhookVerificationResult {
+    if (!authorization || !authorization.startsWith('Bearer ')) {
+        return { verified: false, reason: 'Missing bearer token' };
+    }
+
+    if (!safeCompare(authorization.slice('Bearer '.length), expected)) {
+        return { verified: false, reason: 'Token mismatch' };
+    }
+
+    return { verified: true };
+}
+
+/**
+ * Verify the bearer token Vercel Cron sends with scheduled invocations
+ */
+export function verifyCronSecret(authorization: string | null): WebhookVerificationResult {
+    return verifyBearerToken(authorization, getCronSecret());
+}
+
+/**
+ * Verify the bearer token on admin API requests
+ */
+export function verifyAdminToken(authorization: string | null): WebhookVerificationResult {
+    return verifyBearerToken(authorization, getAdminApiToken());
+}
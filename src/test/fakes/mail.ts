@@ -0,0 +1,57 @@
+/**
+ * In-Memory Mail Transport
+ *
+ * Records every email instead of delivering it, and can be told to fail the
+ * next sends the way a provider outage would. Use with
+ * vi.mock('@/lib/email-transports') returning fakeMail.transport from
+ * getEmailTransport, and call fakeMail.reset() between tests.
+ */
+
+import type { EmailTransport, OutgoingEmail } from '@/lib/email-transports';
+
+export interface SentEmail extends OutgoingEmail {
+    messageId: string;
+}
+
+export function createFakeMailTransport() {
+    const sent: SentEmail[] = [];
+    const pendingFailures: Error[] = [];
+    let nextId = 1;
+
+    const transport: EmailTransport = {
+        name: 'mailgun',
+
+        async send(email) {
+            const failure = pendingFailures.shift();
+            if (failure) throw failure;
+
+            const messageId = `<fake-${nextId++}@mail.test>`;
+            sent.push({ ...email, messageId });
+            return messageId;
+        },
+    };
+
+    return {
+        transport,
+
+        sent(): SentEmail[] {
+            return [...sent];
+        },
+
+        sentTo(address: string): SentEmail[] {
+            return sent.filter(email => email.to === address);
+        },
+
+        failNext(error: Error, times = 1): void {
+            for (let i = 0; i < times; i++) pendingFailures.push(error);
+        },
+
+        reset(): void {
+            sent.length = 0;
+            pendingFailures.length = 0;
+            nextId = 1;
+        },
+    };
+}
+
+export type FakeMailTransport = ReturnType<typeof createFakeMailTransport>;
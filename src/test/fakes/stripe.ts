@@ -0,0 +1,175 @@
+/**
+ * In-Memory Stripe
+ *
+ * Stands in for the Stripe SDK's promotion code and coupon APIs in end-to-end
+ * tests. Honours idempotency keys and code uniqueness like the real API, and can
+ * be told to fail the next calls to simulate an outage.
+ *
+ * Use with vi.mock('stripe') exporting fakeStripe.sdk(actual.default.errors),
+ * and call fakeStripe.reset() between tests.
+ */
+
+import type Stripe from 'stripe';
+
+type PromotionCodeCreateParams = Stripe.PromotionCodeCreateParams;
+
+export interface FakeCoupon {
+    id: string;
+    amount_off: number | null;
+    percent_off: number | null;
+    currency: string | null;
+    valid: boolean;
+}
+
+/**
+ * The error classes the SDK throws, so the app's instanceof checks keep working
+ */
+export type StripeErrors = typeof Stripe.errors;
+
+export function createFakeStripe() {
+    let sdkErrors: StripeErrors | null = null;
+    const coupons = new Map<string, FakeCoupon>();
+    const promotionCodes = new Map<string, Stripe.PromotionCode>();
+    const idempotentResults = new Map<string, Stripe.PromotionCode>();
+    // Errors to throw on the next calls, in order
+    const pendingFailures: Error[] = [];
+    let nextId = 1;
+
+    function errors(): StripeErrors {
+        if (!sdkErrors) {
+            throw new Error('Fake Stripe: sdk() has not been installed with vi.mock');
+        }
+        return sdkErrors;
+    }
+
+    function takeFailure(): void {
+        const failure = pendingFailures.shift();
+        if (failure) throw failure;
+    }
+
+    function getCoupon(id: string): FakeCoupon {
+        const coupon = coupons.get(id);
+        if (!coupon) {
+            throw new (errors().StripeInvalidRequestError)({ type: 'invalid_request_error', message: `No such coupon: '${id}'` });
+        }
+        return coupon;
+    }
+
+    const api = {
+        promotionCodes: {
+            async create(params: PromotionCodeCreateParams, options: Stripe.RequestOptions = {}): Promise<Stripe.PromotionCode> {
+                takeFailure();
+
+                const replayed = options.idempotencyKey && idempotentResults.get(options.idempotencyKey);
+                if (replayed) return structuredClone(replayed);
+
+                const coupon = getCoupon(params.coupon as string);
+                const code = params.code ?? `CODE${nextId}`;
+                if (Array.from(promotionCodes.values()).some(p => p.code.toLowerCase() === code.toLowerCase())) {
+                    throw new (errors().StripeInvalidRequestError)({
+                        type: 'invalid_request_error',
+                        code: 'resource_already_exists',
+                        message: `A promotion code with code "${code}" already exists.`,
+                    });
+                }
+
+                const promotionCode = {
+                    id: `promo_fake${nextId++}`,
+                    object: 'promotion_code',
+                    active: true,
+                    code,
+                    coupon: { object: 'coupon', ...coupon },
+                    expires_at: params.expires_at ?? null,
+                    max_redemptions: params.max_redemptions ?? null,
+                    metadata: { ...params.metadata },
+                    restrictions: params.restrictions ?? {},
+                    times_redeemed: 0,
+                } as unknown as Stripe.PromotionCode;
+
+                promotionCodes.set(promotionCode.id, promotionCode);
+                if (options.idempotencyKey) idempotentResults.set(options.idempotencyKey, promotionCode);
+                return structuredClone(promotionCode);
+            },
+
+            async list(params: { code?: string; limit?: number } = {}): Promise<{ data: Stripe.PromotionCode[] }> {
+                takeFailure();
+                const data = Array.from(promotionCodes.values())
+                    .filter(p => !params.code || p.code.toLowerCase() === params.code.toLowerCase())
+                    .slice(0, params.limit ?? 10);
+                return { data: structuredClone(data) };
+            },
+
+            async retrieve(id: string): Promise<Stripe.PromotionCode> {
+                takeFailure();
+                const promotionCode = promotionCodes.get(id);
+                if (!promotionCode) {
+                    throw new (errors().StripeInvalidRequestError)({ type: 'invalid_request_error', message: `No such promotion code: '${id}'` });
+                }
+                return structuredClone(promotionCode);
+            },
+
+            async update(id: string, params: { active?: boolean }): Promise<Stripe.PromotionCode> {
+                takeFailure();
+                const promotionCode = promotionCodes.get(id);
+                if (!promotionCode) {
+                    throw new (errors().StripeInvalidRequestError)({ type: 'invalid_request_error', message: `No such promotion code: '${id}'` });
+                }
+                if (params.active !== undefined) promotionCode.active = params.active;
+                return structuredClone(promotionCode);
+            },
+        },
+
+        coupons: {
+            async retrieve(id: string): Promise<FakeCoupon> {
+                takeFailure();
+                return { ...getCoupon(id) };
+            },
+        },
+    };
+
+    return {
+        api,
+
+        /**
+         * Replacement for the SDK's default export: instances are the fake API,
+         * and the real error classes stay available as Stripe.errors
+         */
+        sdk(actualErrors: StripeErrors) {
+            sdkErrors = actualErrors;
+            return class FakeStripeClient {
+                static errors = actualErrors;
+
+                constructor() {
+                    return api;
+                }
+            };
+        },
+
+        errors,
+
+        addCoupon(coupon: Partial<FakeCoupon> & { id: string }): void {
+            coupons.set(coupon.id, { amount_off: null, percent_off: null, currency: null, valid: true, ...coupon });
+        },
+
+        promotionCodes(): Stripe.PromotionCode[] {
+            return structuredClone(Array.from(promotionCodes.values()));
+        },
+
+        /**
+         * Fail the next `times` API calls, e.g. with a StripeConnectionError
+         */
+        failNext(error: Error, times = 1): void {
+            for (let i = 0; i < times; i++) pendingFailures.push(error);
+        },
+
+        reset(): void {
+            coupons.clear();
+            promotionCodes.clear();
+            idempotentResults.clear();
+            pendingFailures.length = 0;
+            nextId = 1;
+        },
+    };
+}
+
+export type FakeStripe = ReturnType<typeof createFakeStripe>;
@@ -0,0 +1,500 @@
+/**
+ * In-Memory Supabase
+ *
+ * Stands in for the Supabase client in end-to-end tests. Tables are arrays of
+ * rows; the query builder supports the filters and modifiers src/lib/supabase.ts
+ * uses, and the RPC functions mirror their SQL in supabase/schema.sql. Unique
+ * indexes the app relies on fail with the same 23505 errors Postgres raises.
+ *
+ * Use with vi.mock('@supabase/supabase-js') returning fakeSupabase.client from
+ * createClient, and call fakeSupabase.reset() between tests.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type Row = Record<string, unknown>;
+
+interface QueryError {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+interface QueryResult {
+    data: unknown;
+    error: QueryError | null;
+    count?: number | null;
+}
+
+interface UniqueIndex {
+    name: string;
+    column: string;
+    // Indexed value of a row, or null when the row is outside a partial index
+    key: (row: Row) => string | null;
+}
+
+type Filter = (row: Row) => boolean;
+
+const NO_CAMPAIGN = '00000000-0000-0000-0000-000000000000';
+
+// Column defaults from supabase/schema.sql (id and timestamps are added to every row)
+const TABLE_DEFAULTS: Record<string, () => Row> = {
+    submissions: () => ({
+        answers: { schema_version: 2, fields: [] },
+        email_sent: false,
+        reward_status: 'pending',
+        reward_attempts: 0,
+        reward_generation: 0,
+        reward_reminders_sent: 0,
+        email_flags: [],
+    }),
+    email_outbox: () => ({
+        payload: {},
+        status: 'pending',
+        attempts: 0,
+        max_attempts: 6,
+        next_attempt_at: new Date().toISOString(),
+    }),
+};
+
+const UNIQUE_INDEXES: Record<string, UniqueIndex[]> = {
+    submissions: [
+        {
+            name: 'submissions_tally_response_id_key',
+            column: 'tally_response_id',
+            key: row => String(row.tally_response_id),
+        },
+        {
+            name: 'idx_submissions_unique_rewarded_canonical_email',
+            column: 'email_canonical',
+            key: row => row.classification === 'valid' && row.email_canonical
+                ? `${row.campaign_id ?? NO_CAMPAIGN}:${row.email_canonical}`
+                : null,
+        },
+    ],
+    email_outbox: [{ name: 'email_outbox_dedupe_key_key', column: 'dedupe_key', key: row => String(row.dedupe_key) }],
+    email_events: [{ name: 'email_events_provider_event_id_key', column: 'provider_event_id', key: row => String(row.provider_event_id) }],
+    email_suppressions: [{ name: 'email_suppressions_pkey', column: 'email', key: row => String(row.email) }],
+    form_versions: [{
+        name: 'form_versions_form_id_content_hash_key',
+        column: 'content_hash',
+        key: row => `${row.form_id}:${row.content_hash}`,
+    }],
+};
+
+function clone<T>(value: T): T {
+    return structuredClone(value);
+}
+
+function compare(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+function project(row: Row, columns: string): Row {
+    if (columns.trim() === '*') return clone(row);
+    return Object.fromEntries(columns.split(',').map(c => c.trim()).map(c => [c, clone(row[c] ?? null)]));
+}
+
+/**
+ * Parse a PostgREST value as sent in .or() filters
+ */
+function parseValue(raw: string): unknown {
+    if (raw === 'null') return null;
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    return raw;
+}
+
+/**
+ * Filters from an .or() string, e.g. "status.is.null,status.in.(failed,delivered)"
+ */
+function parseOrFilter(expression: string): Filter {
+    const conditions = expression.match(/[^,()]+\.\w+\.(\([^)]*\)|[^,]*)/g) ?? [];
+
+    const filters = conditions.map((condition): Filter => {
+        const [column, operator, ...rest] = condition.split('.');
+        const raw = rest.join('.');
+        switch (operator) {
+            case 'eq':
+                return row => row[column] === parseValue(raw);
+            case 'is':
+                return row => (row[column] ?? null) === parseValue(raw);
+            case 'lt':
+                return row => row[column] != null && compare(row[column], parseValue(raw)) < 0;
+            case 'in': {
+                const values = raw.replace(/^\(|\)$/g, '').split(',').map(parseValue);
+                return row => values.includes(row[column]);
+            }
+            default:
+                throw new Error(`Fake Supabase: unsupported .or() operator "${operator}"`);
+        }
+    });
+
+    return row => filters.some(filter => filter(row));
+}
+
+export function createFakeSupabase() {
+    const tables = new Map<string, Row[]>();
+    // Run once right before the next insert into a table, to simulate a concurrent writer
+    const insertHooks = new Map<string, () => void>();
+
+    function table(name: string): Row[] {
+        if (!tables.has(name)) tables.set(name, []);
+        return tables.get(name)!;
+    }
+
+    function uniqueViolation(name: string, row: Row, except?: Row): QueryError | null {
+        for (const index of UNIQUE_INDEXES[name] ?? []) {
+            const key = index.key(row);
+            if (key === null) continue;
+
+            const taken = table(name).some(other => other !== except && index.key(other) === key);
+            if (taken) {
+                return {
+                    code: '23505',
+                    message: `duplicate key value violates unique constraint "${index.name}"`,
+                    details: `Key (${index.column})=(${String(row[index.column])}) already exists.`,
+                };
+            }
+        }
+        return null;
+    }
+
+    function newRow(name: string, values: Row): Row {
+        const now = new Date().toISOString();
+        return {
+            id: randomUUID(),
+            created_at: now,
+            updated_at: now,
+            ...TABLE_DEFAULTS[name]?.(),
+            ...clone(values),
+        };
+    }
+
+    class QueryBuilder implements PromiseLike<QueryResult> {
+        private filters: Filter[] = [];
+        private ordering: { column: string; ascending: boolean }[] = [];
+        private bounds: { from: number; to: number } | null = null;
+        private returning: string | null = null;
+        private countRows = false;
+        private headOnly = false;
+        private cardinality: 'single' | 'maybeSingle' | null = null;
+        private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+        private values: Row[] = [];
+        private patch: Row = {};
+        private conflictColumn: string | null = null;
+        private ignoreDuplicates = false;
+
+        constructor(private readonly name: string) {}
+
+        select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+            this.returning = columns;
+            this.countRows = options.count === 'exact';
+            this.headOnly = !!options.head;
+            return this;
+        }
+
+        insert(values: Row | Row[]): this {
+            this.operation = 'insert';
+            this.values = Array.isArray(values) ? values : [values];
+            return this;
+        }
+
+        upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+            this.operation = 'upsert';
+            this.values = Array.isArray(values) ? values : [values];
+            this.conflictColumn = options.onConflict ?? 'id';
+            this.ignoreDuplicates = !!options.ignoreDuplicates;
+            return this;
+        }
+
+        update(patch: Row): this {
+            this.operation = 'update';
+            this.patch = patch;
+            return this;
+        }
+
+        delete(): this {
+            this.operation = 'delete';
+            return this;
+        }
+
+        eq(column: string, value: unknown): this {
+            this.filters.push(row => row[column] === value);
+            return this;
+        }
+
+        neq(column: string, value: unknown): this {
+            // SQL semantics: NULL <> value is not true
+            this.filters.push(row => row[column] !== null && row[column] !== undefined && row[column] !== value);
+            return this;
+        }
+
+        is(column: string, value: null | boolean): this {
+            this.filters.push(row => (row[column] ?? null) === value);
+            return this;
+        }
+
+        in(column: string, values: unknown[]): this {
+            this.filters.push(row => values.includes(row[column]));
+            return this;
+        }
+
+        gte(column: string, value: unknown): this {
+            this.filters.push(row => row[column] != null && compare(row[column], value) >= 0);
+            return this;
+        }
+
+        lte(column: string, value: unknown): this {
+            this.filters.push(row => row[column] != null && compare(row[column], value) <= 0);
+            return this;
+        }
+
+        ilike(column: string, pattern: string): this {
+            const regex = new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+            this.filters.push(row => typeof row[column] === 'string' && regex.test(row[column] as string));
+            return this;
+        }
+
+        or(expression: string): this {
+            this.filters.push(parseOrFilter(expression));
+            return this;
+        }
+
+        order(column: string, options: { ascending?: boolean } = {}): this {
+            this.ordering.push({ column, ascending: options.ascending ?? true });
+            return this;
+        }
+
+        limit(count: number): this {
+            this.bounds = { from: 0, to: count - 1 };
+            return this;
+        }
+
+        range(from: number, to: number): this {
+            this.bounds = { from, to };
+            return this;
+        }
+
+        single(): this {
+            this.cardinality = 'single';
+            return this;
+        }
+
+        maybeSingle(): this {
+            this.cardinality = 'maybeSingle';
+            return this;
+        }
+
+        then<TResult1 = QueryResult, TResult2 = never>(
+            onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+            onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+        ): PromiseLike<TResult1 | TResult2> {
+            return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+        }
+
+        private matching(): Row[] {
+            return table(this.name).filter(row => this.filters.every(filter => filter(row)));
+        }
+
+        private write(): { rows: Row[]; error: QueryError | null } {
+            const rows = table(this.name);
+
+            switch (this.operation) {
+                case 'insert': {
+                    const hook = insertHooks.get(this.name);
+                    insertHooks.delete(this.name);
+                    hook?.();
+
+                    const inserted: Row[] = [];
+                    for (const values of this.values) {
+                        const row = newRow(this.name, values);
+                        const error = uniqueViolation(this.name, row);
+                        if (error) return { rows: [], error };
+                        rows.push(row);
+                        inserted.push(row);
+                    }
+                    return { rows: inserted, error: null };
+                }
+                case 'upsert': {
+                    const written: Row[] = [];
+                    for (const values of this.values) {
+                        const column = this.conflictColumn!;
+                        const existing = rows.find(row => row[column] === values[column]);
+                        if (existing) {
+                            if (this.ignoreDuplicates) continue;
+                            Object.assign(existing, clone(values), { updated_at: new Date().toISOString() });
+                            written.push(existing);
+                            continue;
+                        }
+                        const row = newRow(this.name, values);
+                        const error = uniqueViolation(this.name, row);
+                        if (error) return { rows: [], error };
+                        rows.push(row);
+                        written.push(row);
+                    }
+                    return { rows: written, error: null };
+                }
+                case 'update': {
+                    const updated = this.matching();
+                    for (const row of updated) {
+                        const candidate = { ...row, ...clone(this.patch), updated_at: new Date().toISOString() };
+                        const error = uniqueViolation(this.name, candidate, row);
+                        if (error) return { rows: [], error };
+                        Object.assign(row, candidate);
+                    }
+                    return { rows: updated, error: null };
+                }
+                case 'delete': {
+                    const deleted = this.matching();
+                    tables.set(this.name, rows.filter(row => !deleted.includes(row)));
+                    return { rows: deleted, error: null };
+                }
+                case 'select':
+                    return { rows: this.matching(), error: null };
+            }
+        }
+
+        private execute(): QueryResult {
+            const { rows: affected, error } = this.write();
+            if (error) return { data: null, error };
+
+            let rows = [...affected];
+            for (const { column, ascending } of [...this.ordering].reverse()) {
+                rows.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+            }
+            const count = this.countRows ? rows.length : null;
+            if (this.bounds) rows = rows.slice(this.bounds.from, this.bounds.to + 1);
+
+            // Writes only return rows when .select() asks for them
+            if (this.operation !== 'select' && this.returning === null) {
+                return { data: null, error: null, count };
+            }
+            if (this.headOnly) {
+                return { data: null, error: null, count };
+            }
+
+            const data = rows.map(row => project(row, this.returning ?? '*'));
+            if (this.cardinality) {
+                if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+                    return {
+                        data: null,
+                        error: { code: 'PGRST116', message: `JSON object requested, multiple (or no) rows returned (${data.length})` },
+                    };
+                }
+                return { data: data[0] ?? null, error: null, count };
+            }
+
+            return { data, error: null, count };
+        }
+    }
+
+    const rpcs: Record<string, (args: Row) => Row[]> = {
+        claim_submission_reward({ p_submission_id, p_max_attempts = 5, p_lease_seconds = 300 }) {
+            const leaseExpired = Date.now() - Number(p_lease_seconds) * 1000;
+            const row = table('submissions').find(s =>
+                s.id === p_submission_id &&
+                s.classification === 'valid' &&
+                ['pending', 'code_created', 'failed'].includes(s.reward_status as string) &&
+                (s.reward_attempts as number) < Number(p_max_attempts) &&
+                (!s.reward_claimed_at || Date.parse(s.reward_claimed_at as string) < leaseExpired)
+            );
+            if (!row) return [];
+
+            Object.assign(row, {
+                reward_attempts: (row.reward_attempts as number) + 1,
+                reward_claimed_at: new Date().toISOString(),
+                reward_error: null,
+                updated_at: new Date().toISOString(),
+            });
+            return [clone(row)];
+        },
+
+        claim_email_outbox({ p_limit = 25, p_entry_id = null, p_lease_seconds = 300 }) {
+            const now = Date.now();
+            const leaseExpired = now - Number(p_lease_seconds) * 1000;
+            const leaseLapsed = (e: Row) => e.status === 'sending' && !!e.locked_at && Date.parse(e.locked_at as string) < leaseExpired;
+
+            table('email_outbox')
+                .filter(e =>
+                    (p_entry_id === null || e.id === p_entry_id) &&
+                    (e.attempts as number) >= (e.max_attempts as number) &&
+                    leaseLapsed(e)
+                )
+                .forEach(entry => Object.assign(entry, {
+                    status: 'dead',
+                    last_error: `${entry.last_error ? `${entry.last_error}; ` : ''}Delivery lease expired on the final attempt`,
+                    locked_at: null,
+                    updated_at: new Date(now).toISOString(),
+                }));
+
+            const due = table('email_outbox')
+                .filter(e =>
+                    (p_entry_id === null || e.id === p_entry_id) &&
+                    (e.attempts as number) < (e.max_attempts as number) &&
+                    (
+                        (['pending', 'failed'].includes(e.status as string) && Date.parse(e.next_attempt_at as string) <= now) ||
+                        leaseLapsed(e)
+                    )
+                )
+                .sort((a, b) => compare(a.next_attempt_at, b.next_attempt_at))
+                .slice(0, Number(p_limit));
+
+            return due.map(entry => {
+                Object.assign(entry, {
+                    status: 'sending',
+                    attempts: (entry.attempts as number) + 1,
+                    locked_at: new Date(now).toISOString(),
+                    updated_at: new Date(now).toISOString(),
+                });
+                return clone(entry);
+            });
+        },
+    };
+
+    const client = {
+        from(name: string) {
+            return new QueryBuilder(name);
+        },
+
+        async rpc(name: string, args: Row = {}): Promise<QueryResult> {
+            const fn = rpcs[name];
+            if (!fn) {
+                return { data: null, error: { code: '42883', message: `Fake Supabase: function ${name} is not implemented` } };
+            }
+            return { data: fn(args), error: null };
+        },
+    };
+
+    return {
+        client,
+
+        /**
+         * Current rows of a table (copies, so assertions can't change them)
+         */
+        rows(name: string): Row[] {
+            return clone(table(name));
+        },
+
+        /**
+         * Insert rows directly, bypassing the app (e.g. campaigns)
+         */
+        seed(name: string, rows: Row[]): void {
+            table(name).push(...rows.map(row => newRow(name, row)));
+        },
+
+        onNextInsert(name: string, hook: () => void): void {
+            insertHooks.set(name, hook);
+        },
+
+        reset(): void {
+            tables.clear();
+            insertHooks.clear();
+        },
+    };
+}
+
+export type FakeSupabase = ReturnType<typeof createFakeSupabase>;
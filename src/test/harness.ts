@@ -0,0 +1,141 @@
+/**
+ * End-to-End Test Harness
+ *
+ * Shared fakes and request helpers for tests that drive the webhook route
+ * handlers. Test files wire the fakes in with vi.mock (see
+ * webhooks.e2e.test.ts) so no request ever leaves the process:
+ * - fakeSupabase: in-memory database (tables, unique indexes, RPCs)
+ * - fakeStripe: promotion codes and coupons
+ * - fakeMail: the email transport
+ *
+ * Fixture payloads live in ./fixtures.
+ */
+
+import { createHmac } from 'crypto';
+import { vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createFakeSupabase } from './fakes/supabase';
+import { createFakeStripe } from './fakes/stripe';
+import { createFakeMailTransport } from './fakes/mail';
+import tallyFormResponse from './fixtures/tally-form-response.json';
+
+export const fakeSupabase = createFakeSupabase();
+export const fakeStripe = createFakeStripe();
+export const fakeMail = createFakeMailTransport();
+
+export const TEST_ENV = {
+    SUPABASE_URL: 'https://supabase.test',
+    SUPABASE_SERVICE_KEY: 'service-key',
+    STRIPE_SECRET_KEY: 'sk_test_fake',
+    STRIPE_COUPON_ID: 'coupon_survey',
+    TALLY_WEBHOOK_SECRET: 'tally-secret',
+    SUPABASE_WEBHOOK_SECRET: 'supabase-secret',
+    NEXT_PUBLIC_APP_URL: 'https://www.flowcrest.app',
+    EMAIL_FROM: 'rewards@flowcrest.test',
+};
+
+/**
+ * Stub the environment and start every test with empty fakes
+ */
+export function resetHarness(): void {
+    for (const [name, value] of Object.entries(TEST_ENV)) {
+        vi.stubEnv(name, value);
+    }
+    fakeSupabase.reset();
+    fakeStripe.reset();
+    fakeMail.reset();
+    fakeStripe.addCoupon({ id: TEST_ENV.STRIPE_COUPON_ID, amount_off: 290, currency: 'eur' });
+}
+
+export type TallyPayload = typeof tallyFormResponse;
+
+const ATTENTION_CHECK_KEY = 'question_J6r2E4';
+
+/**
+ * The fixture Tally response with a fresh response id, optionally with a
+ * different email (null removes the email field) or attention check answer
+ */
+export function tallyPayload(options: {
+    responseId?: string;
+    email?: string | null;
+    attentionAnswer?: string;
+} = {}): TallyPayload {
+    const payload = structuredClone(tallyFormResponse);
+    const responseId = options.responseId ?? `resp_${Math.random().toString(36).slice(2, 10)}`;
+    payload.eventId = `evt_${responseId}`;
+    payload.data.responseId = responseId;
+    payload.data.submissionId = responseId;
+
+    if (options.email === null) {
+        payload.data.fields = payload.data.fields.filter(f => f.type !== 'INPUT_EMAIL');
+    } else if (options.email) {
+        payload.data.fields.find(f => f.type === 'INPUT_EMAIL')!.value = options.email;
+    }
+
+    if (options.attentionAnswer) {
+        const field = payload.data.fields.find(f => f.key === ATTENTION_CHECK_KEY)!;
+        const option = field.options!.find(o => o.text === options.attentionAnswer);
+        if (!option) {
+            throw new Error(`Attention check has no option "${options.attentionAnswer}"`);
+        }
+        field.value = [option.id];
+    }
+
+    return payload;
+}
+
+export interface RouteResponse {
+    status: number;
+    body: Record<string, unknown>;
+}
+
+async function call(
+    handler: (request: NextRequest) => Promise<Response>,
+    url: string,
+    body: string,
+    headers: Record<string, string>
+): Promise<RouteResponse> {
+    const response = await handler(new NextRequest(url, {
+        method: 'POST',
+        body,
+        headers: { 'content-type': 'application/json', ...headers },
+    }));
+    return { status: response.status, body: await response.json() };
+}
+
+/**
+ * POST a payload to the Tally webhook, signed like Tally signs it
+ * (pass a signature to send a wrong one)
+ */
+export async function postTally(payload: unknown, signature?: string): Promise<RouteResponse> {
+    return postTallyBody(JSON.stringify(payload), signature);
+}
+
+/**
+ * POST a raw, signed body to the Tally webhook (e.g. one that is not JSON)
+ */
+export async function postTallyBody(body: string, signature?: string): Promise<RouteResponse> {
+    const { POST } = await import('@/app/api/webhook/tally/route');
+
+    return call(POST, 'http://localhost/api/webhook/tally', body, {
+        'tally-signature': signature ?? createHmac('sha256', TEST_ENV.TALLY_WEBHOOK_SECRET).update(body).digest('base64'),
+    });
+}
+
+/**
+ * POST the database webhook Supabase sends after a submission is inserted
+ */
+export async function postSubmissionInserted(submissionId: string): Promise<RouteResponse> {
+    const { POST } = await import('@/app/api/webhook/supabase/route');
+    const body = JSON.stringify({
+        type: 'INSERT',
+        table: 'submissions',
+        schema: 'public',
+        record: { id: submissionId },
+        old_record: null,
+    });
+
+    return call(POST, 'http://localhost/api/webhook/supabase', body, {
+        'x-webhook-secret': TEST_ENV.SUPABASE_WEBHOOK_SECRET,
+    });
+}
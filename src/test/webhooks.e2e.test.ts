@@ -0,0 +1,496 @@
+/**
+ * Webhook End-to-End Tests
+ *
+ * Drives the Tally and Supabase webhook handlers with the fixture Tally
+ * response and follows each submission through classification, persistence,
+ * reward and email, against in-memory Supabase, Stripe and mail fakes
+ * (see harness.ts). Runs offline.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { drainOutbox, resendSubmissionEmail } from '@/lib/outbox';
+import { reissueReward } from '@/lib/rewards';
+import type { Submission } from '@/lib/supabase';
+import {
+    fakeSupabase,
+    fakeStripe,
+    fakeMail,
+    resetHarness,
+    tallyPayload,
+    postTally,
+    postTallyBody,
+    postSubmissionInserted,
+} from './harness';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { fakeSupabase } = await import('./harness');
+    return { createClient: () => fakeSupabase.client };
+});
+
+vi.mock('stripe', async importOriginal => {
+    const actual = await importOriginal<typeof import('stripe')>();
+    const { fakeStripe } = await import('./harness');
+    return { default: fakeStripe.sdk(actual.default.errors) };
+});
+
+vi.mock('@/lib/email-transports', async () => {
+    const { fakeMail } = await import('./harness');
+    return { getEmailTransport: () => fakeMail.transport };
+});
+
+const RESPONDENT = 'respondent@example.com';
+
+beforeEach(() => {
+    resetHarness();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+function onlySubmission() {
+    const submissions = fakeSupabase.rows('submissions');
+    expect(submissions).toHaveLength(1);
+    return submissions[0];
+}
+
+/**
+ * Submit the fixture response and return the stored submission's id
+ */
+async function submitValid(): Promise<string> {
+    const response = await postTally(tallyPayload());
+    expect(response).toEqual({ status: 200, body: { success: true, classification: 'valid' } });
+    return onlySubmission().id as string;
+}
+
+describe('valid submission', () => {
+    it('is stored, rewarded with a promotion code and emailed the code', async () => {
+        const id = await submitValid();
+        expect(onlySubmission()).toMatchObject({
+            email: RESPONDENT,
+            email_canonical: RESPONDENT,
+            classification: 'valid',
+            form_id: 'OD7dp7',
+            reward_status: 'pending',
+            email_sent: false,
+        });
+        expect(onlySubmission().answers).toMatchObject({
+            schema_version: 2,
+            fields: expect.arrayContaining([
+                expect.objectContaining({ key: 'question_J6r2E4', value: 'Yes', raw: [expect.any(String)] }),
+                expect.objectContaining({ type: 'INPUT_EMAIL', value: RESPONDENT }),
+            ]),
+        });
+
+        const reward = await postSubmissionInserted(id);
+        expect(reward.status).toBe(200);
+        expect(reward.body).toMatchObject({ success: true, emailSent: true });
+
+        const [promotionCode] = fakeStripe.promotionCodes();
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+        expect(promotionCode).toMatchObject({
+            code: reward.body.promoCode,
+            max_redemptions: 1,
+            metadata: { submission_id: id, email: RESPONDENT },
+        });
+
+        const [email] = fakeMail.sent();
+        expect(fakeMail.sent()).toHaveLength(1);
+        expect(email.to).toBe(RESPONDENT);
+        expect(email.text).toContain(promotionCode.code);
+        expect(email.html).toContain(promotionCode.code);
+
+        expect(onlySubmission()).toMatchObject({
+            reward_status: 'email_sent',
+            reward_type: 'stripe_promotion_code',
+            promo_code: promotionCode.code,
+            stripe_promotion_code_id: promotionCode.id,
+            email_sent: true,
+            email_type: 'reward',
+            email_message_id: email.messageId,
+        });
+        expect(fakeSupabase.rows('email_outbox')).toEqual([
+            expect.objectContaining({ submission_id: id, email_type: 'reward', status: 'sent', message_id: email.messageId }),
+        ]);
+    });
+
+    it('is rewarded only once when the database webhook is redelivered', async () => {
+        const id = await submitValid();
+        await postSubmissionInserted(id);
+
+        const redelivery = await postSubmissionInserted(id);
+
+        expect(redelivery).toEqual({ status: 200, body: { success: true, message: 'Already processed' } });
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+        expect(fakeMail.sent()).toHaveLength(1);
+    });
+
+    it('keeps a corrected address when the reward email is resent to it', async () => {
+        const id = await submitValid();
+        await postSubmissionInserted(id);
+
+        const delivery = await resendSubmissionEmail({ ...onlySubmission(), id } as Submission & { id: string }, 'Fixed.Address+survey@example.com');
+
+        expect(delivery).toMatchObject({ success: true });
+        expect(fakeMail.sent().map(email => email.to)).toEqual([RESPONDENT, 'Fixed.Address+survey@example.com']);
+        expect(onlySubmission()).toMatchObject({
+            email: 'Fixed.Address+survey@example.com',
+            email_canonical: 'fixed.address@example.com',
+        });
+    });
+});
+
+describe('duplicate submission', () => {
+    it('from the same email is logged as a duplicate attempt, not stored or rewarded', async () => {
+        const id = await submitValid();
+        await postSubmissionInserted(id);
+
+        const response = await postTally(tallyPayload({ responseId: 'second-response' }));
+
+        expect(response).toEqual({ status: 200, body: { success: true, classification: 'duplicate' } });
+        expect(onlySubmission().id).toBe(id);
+        expect(fakeSupabase.rows('duplicate_attempts')).toEqual([
+            expect.objectContaining({
+                original_submission_id: id,
+                email: RESPONDENT,
+                tally_response_id: 'second-response',
+                reason: 'email_already_submitted',
+            }),
+        ]);
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+        expect(fakeMail.sent()).toHaveLength(1);
+    });
+
+    it('is not logged when Tally redelivers a response it already sent', async () => {
+        const payload = tallyPayload();
+        await postTally(payload);
+        const duplicate = tallyPayload({ responseId: 'second-response' });
+        await postTally(duplicate);
+
+        expect(await postTally(payload)).toEqual({ status: 200, body: { success: true, message: 'Already processed' } });
+        expect(await postTally(duplicate)).toEqual({ status: 200, body: { success: true, message: 'Already processed' } });
+        expect(fakeSupabase.rows('submissions')).toHaveLength(1);
+        expect(fakeSupabase.rows('duplicate_attempts')).toEqual([
+            expect.objectContaining({ tally_response_id: 'second-response' }),
+        ]);
+    });
+
+    it('from an alias of the same mailbox is logged as an alias duplicate', async () => {
+        const id = await submitValid();
+
+        const response = await postTally(tallyPayload({ email: 'Respondent+rewards@example.com' }));
+
+        expect(response.body.classification).toBe('duplicate');
+        expect(fakeSupabase.rows('duplicate_attempts')).toEqual([
+            expect.objectContaining({ original_submission_id: id, reason: 'alias_already_submitted' }),
+        ]);
+    });
+
+    it('that races past the duplicate check is stopped by the unique index', async () => {
+        // A concurrent request stores its valid submission between our duplicate check and insert
+        fakeSupabase.onNextInsert('submissions', () => fakeSupabase.seed('submissions', [{
+            email: RESPONDENT,
+            email_canonical: RESPONDENT,
+            tally_response_id: 'concurrent-response',
+            classification: 'valid',
+            form_id: 'OD7dp7',
+            campaign_id: null,
+        }]));
+
+        const response = await postTally(tallyPayload());
+
+        expect(response).toEqual({ status: 200, body: { success: true, classification: 'duplicate' } });
+        const winner = onlySubmission();
+        expect(winner.tally_response_id).toBe('concurrent-response');
+        expect(fakeSupabase.rows('duplicate_attempts')).toEqual([
+            expect.objectContaining({ original_submission_id: winner.id, reason: 'concurrent_submission' }),
+        ]);
+    });
+});
+
+describe('attention check failure', () => {
+    it('is stored and sent the abuse email instead of a reward', async () => {
+        const response = await postTally(tallyPayload({ attentionAnswer: 'ChatGPT' }));
+
+        expect(response).toEqual({ status: 200, body: { success: true, classification: 'attention_fail' } });
+        const submission = onlySubmission();
+        expect(submission).toMatchObject({
+            classification: 'attention_fail',
+            email_sent: true,
+            email_type: 'abuse',
+        });
+        expect(submission.promo_code).toBeUndefined();
+
+        const [email] = fakeMail.sent();
+        expect(fakeMail.sent()).toHaveLength(1);
+        expect(email.to).toBe(RESPONDENT);
+        expect(submission.email_message_id).toBe(email.messageId);
+
+        // The database webhook fires for every insert, but only valid rows are rewarded
+        const reward = await postSubmissionInserted(submission.id as string);
+        expect(reward.body).toEqual({ success: true, message: 'Non-valid submission ignored' });
+        expect(fakeStripe.promotionCodes()).toHaveLength(0);
+        expect(fakeMail.sent()).toHaveLength(1);
+    });
+
+    it('keeps the abuse email queued for retry when the mail provider fails', async () => {
+        fakeMail.failNext(new Error('Mailgun: 503 Service Unavailable'));
+
+        const response = await postTally(tallyPayload({ attentionAnswer: 'ChatGPT' }));
+
+        expect(response.body.classification).toBe('attention_fail');
+        expect(onlySubmission()).toMatchObject({ classification: 'attention_fail', email_sent: false });
+        expect(fakeSupabase.rows('email_outbox')).toEqual([
+            expect.objectContaining({ email_type: 'abuse', status: 'failed', attempts: 1, last_error: 'Mailgun: 503 Service Unavailable' }),
+        ]);
+    });
+});
+
+describe('missing email', () => {
+    it('is rejected without storing anything or sending email', async () => {
+        const response = await postTally(tallyPayload({ email: null }));
+
+        expect(response).toEqual({ status: 400, body: { error: 'No email found' } });
+        expect(fakeSupabase.rows('submissions')).toHaveLength(0);
+        expect(fakeSupabase.rows('duplicate_attempts')).toHaveLength(0);
+        expect(fakeMail.sent()).toHaveLength(0);
+    });
+});
+
+describe('form versions', () => {
+    it('are stored once per form structure and referenced by each submission', async () => {
+        await postTally(tallyPayload());
+        await postTally(tallyPayload({ email: 'second@example.com', attentionAnswer: 'ChatGPT' }));
+
+        const versions = fakeSupabase.rows('form_versions');
+        expect(versions).toEqual([
+            expect.objectContaining({ form_id: 'OD7dp7', form_name: 'AI Coding Usage and Difficulties Survey' }),
+        ]);
+        expect(fakeSupabase.rows('submissions').map(s => s.form_version_id)).toEqual([versions[0].id, versions[0].id]);
+    });
+
+    it('records an edited form as a new version and alerts when it breaks an attention check', async () => {
+        await postTally(tallyPayload());
+
+        // "Yes" is reworded in every branch, so the respondent picking it no longer matches the rule
+        const edited = tallyPayload({ email: 'second@example.com' });
+        edited.data.fields
+            .filter(f => f.label.toLowerCase().includes('have you been paying attention'))
+            .forEach(f => { f.options!.find(o => o.text === 'Yes')!.text = 'Yes, I have'; });
+        const response = await postTally(edited);
+
+        expect(response.body.classification).toBe('attention_fail');
+        const versions = fakeSupabase.rows('form_versions');
+        expect(versions).toHaveLength(2);
+        expect(fakeSupabase.rows('submissions').find(s => s.email === 'second@example.com')!.form_version_id).toBe(versions[1].id);
+        expect(console.error).toHaveBeenCalledWith(
+            expect.stringContaining('ALERT: Form OD7dp7 version'),
+            expect.stringContaining('paying_attention: No question matching label containing "have you been paying attention" offers an expected option')
+        );
+    });
+});
+
+describe('malformed payload', () => {
+    it('is rejected with the failing paths before anything is stored', async () => {
+        const payload = tallyPayload();
+        (payload.data as Record<string, unknown>).responseId = 123;
+        (payload.data.fields[0] as Record<string, unknown>).type = 'SLIDER';
+
+        const response = await postTally(payload);
+
+        expect(response).toEqual({
+            status: 400,
+            body: {
+                error: 'Invalid payload',
+                issues: [
+                    { path: 'data.responseId', message: 'must be a string, got number' },
+                    { path: 'data.fields[0].type', message: 'is not a supported field type: SLIDER' },
+                ],
+            },
+        });
+        expect(fakeSupabase.rows('submissions')).toHaveLength(0);
+        expect(fakeMail.sent()).toHaveLength(0);
+    });
+
+    it('is rejected when the body is not JSON', async () => {
+        const response = await postTallyBody('{"eventType": "FORM_RESP');
+
+        expect(response).toEqual({ status: 400, body: { error: 'Invalid JSON' } });
+    });
+});
+
+describe('other event types', () => {
+    it('are acknowledged and ignored', async () => {
+        const response = await postTally({ ...tallyPayload(), eventType: 'FORM_DELETED' });
+
+        expect(response).toEqual({ status: 200, body: { success: true, message: 'Event ignored' } });
+        expect(fakeSupabase.rows('submissions')).toHaveLength(0);
+    });
+});
+
+describe('invalid signature', () => {
+    it('is rejected before anything is stored', async () => {
+        const response = await postTally(tallyPayload(), 'not-the-signature');
+
+        expect(response).toEqual({ status: 401, body: { error: 'Invalid signature' } });
+        expect(fakeSupabase.rows('submissions')).toHaveLength(0);
+    });
+});
+
+describe('Stripe error', () => {
+    it('fails the reward attempt and a retry issues the reserved code once', async () => {
+        const id = await submitValid();
+        const { StripeConnectionError } = fakeStripe.errors();
+        fakeStripe.failNext(new StripeConnectionError({ type: 'api_error', message: 'An error occurred with our connection to Stripe.' }));
+
+        const failed = await postSubmissionInserted(id);
+
+        expect(failed.status).toBe(500);
+        expect(failed.body).toMatchObject({ error: 'Reward processing failed' });
+        const reserved = onlySubmission();
+        expect(reserved).toMatchObject({
+            reward_status: 'failed',
+            reward_error: 'An error occurred with our connection to Stripe.',
+            email_sent: false,
+        });
+        expect(reserved.promo_code).toEqual(expect.any(String));
+        expect(fakeStripe.promotionCodes()).toHaveLength(0);
+        expect(fakeMail.sent()).toHaveLength(0);
+
+        const retried = await postSubmissionInserted(id);
+
+        expect(retried.status).toBe(200);
+        expect(retried.body).toMatchObject({ success: true, promoCode: reserved.promo_code, emailSent: true });
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+        expect(fakeMail.sent()).toHaveLength(1);
+        expect(onlySubmission()).toMatchObject({ reward_status: 'email_sent', reward_attempts: 2 });
+    });
+
+    it('counts the code expiry from the first attempt, so a later retry sends the same expiry', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-02-01T10:00:00Z'));
+        const id = await submitValid();
+        fakeSupabase.seed('campaigns', [{
+            id: 'campaign-expiring',
+            form_id: 'other-form',
+            name: 'Expiring codes',
+            settings: { reward: { type: 'stripe_promotion_code', expiresInDays: 30 } },
+        }]);
+        await fakeSupabase.client.from('submissions').update({ campaign_id: 'campaign-expiring' }).eq('id', id);
+
+        vi.setSystemTime(new Date('2026-02-01T11:00:00Z'));
+        const { StripeConnectionError } = fakeStripe.errors();
+        fakeStripe.failNext(new StripeConnectionError({ type: 'api_error', message: 'An error occurred with our connection to Stripe.' }));
+        expect((await postSubmissionInserted(id)).status).toBe(500);
+        expect(onlySubmission().reward_issue_started_at).toBe('2026-02-01T11:00:00.000Z');
+
+        vi.setSystemTime(new Date('2026-02-03T09:00:00Z'));
+        expect((await postSubmissionInserted(id)).status).toBe(200);
+
+        const [promotionCode] = fakeStripe.promotionCodes();
+        expect(promotionCode.expires_at).toBe(Date.parse('2026-03-03T11:00:00Z') / 1000);
+        expect(onlySubmission().reward_expires_at).toBe('2026-03-03T11:00:00.000Z');
+    });
+});
+
+describe('reward reissue', () => {
+    it('revokes the old code and emails a new one', async () => {
+        const id = await submitValid();
+        await postSubmissionInserted(id);
+        const [original] = fakeStripe.promotionCodes();
+
+        const outcome = await reissueReward(id);
+
+        expect(outcome).toMatchObject({ success: true, emailSent: true });
+        const [revoked, replacement] = fakeStripe.promotionCodes();
+        expect(revoked).toMatchObject({ id: original.id, active: false });
+        expect(replacement).toMatchObject({ active: true, code: outcome.promoCode });
+        expect(onlySubmission()).toMatchObject({ reward_generation: 1, promo_code: replacement.code, reward_status: 'email_sent' });
+    });
+
+    it('lets only one of two concurrent reissues replace the reward', async () => {
+        const id = await submitValid();
+        await postSubmissionInserted(id);
+
+        const outcomes = await Promise.allSettled([reissueReward(id), reissueReward(id)]);
+
+        expect(outcomes.map(o => o.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect((outcomes.find(o => o.status === 'rejected') as PromiseRejectedResult).reason.message)
+            .toContain('The reward changed while reissuing');
+        const active = fakeStripe.promotionCodes().filter(p => p.active);
+        expect(active).toHaveLength(1);
+        expect(onlySubmission()).toMatchObject({ reward_generation: 1, promo_code: active[0].code });
+    });
+
+    it('is refused while a reward attempt holds the claim', async () => {
+        const id = await submitValid();
+        await fakeSupabase.client.from('submissions').update({ reward_claimed_at: new Date().toISOString() }).eq('id', id);
+
+        await expect(reissueReward(id)).rejects.toThrow('A reward attempt is in progress');
+        expect(onlySubmission()).toMatchObject({ reward_generation: 0 });
+    });
+});
+
+describe('mail provider error', () => {
+    it('keeps the issued code and the outbox delivers the email on a later sweep', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-02-01T10:00:00Z'));
+        const id = await submitValid();
+        fakeMail.failNext(new Error('Mailgun: 502 Bad Gateway'));
+
+        const failed = await postSubmissionInserted(id);
+
+        expect(failed.status).toBe(500);
+        expect(onlySubmission()).toMatchObject({
+            reward_status: 'failed',
+            reward_error: 'Reward email failed: Mailgun: 502 Bad Gateway',
+            email_sent: false,
+        });
+        const [promotionCode] = fakeStripe.promotionCodes();
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+        expect(fakeSupabase.rows('email_outbox')).toEqual([
+            expect.objectContaining({ status: 'failed', attempts: 1, last_error: 'Mailgun: 502 Bad Gateway' }),
+        ]);
+
+        // Nothing is due until the backoff has passed
+        expect(await drainOutbox(10)).toEqual([]);
+
+        vi.setSystemTime(new Date('2026-02-01T10:05:00Z'));
+        const [delivery] = await drainOutbox(10);
+
+        expect(delivery).toMatchObject({ success: true });
+        expect(fakeMail.sent()).toEqual([expect.objectContaining({ to: RESPONDENT })]);
+        expect(fakeMail.sent()[0].text).toContain(promotionCode.code);
+        expect(onlySubmission()).toMatchObject({ reward_status: 'email_sent', email_sent: true, promo_code: promotionCode.code });
+        expect(fakeStripe.promotionCodes()).toHaveLength(1);
+    });
+
+    it('dead-letters an entry whose final attempt never finished', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-02-01T10:00:00Z'));
+        fakeSupabase.seed('email_outbox', [{
+            dedupe_key: 'reward:stuck',
+            email_type: 'reward',
+            recipient: RESPONDENT,
+            status: 'sending',
+            attempts: 6,
+            locked_at: '2026-02-01T09:50:00Z',
+            last_error: 'Mailgun: 502 Bad Gateway',
+        }]);
+
+        expect(await drainOutbox(10)).toEqual([]);
+        expect(fakeSupabase.rows('email_outbox')).toEqual([
+            expect.objectContaining({
+                status: 'dead',
+                attempts: 6,
+                locked_at: null,
+                last_error: 'Mailgun: 502 Bad Gateway; Delivery lease expired on the final attempt',
+            }),
+        ]);
+        expect(fakeMail.sent()).toHaveLength(0);
+    });
+});
@@ -47,3 +47,681 @@ CREATE POLICY "Service role has full access" ON submissions
   FOR ALL
   USING (TRUE)
   WITH CHECK (TRUE);
+
+-- ============================================
+-- Reward lifecycle
+-- ============================================
+-- Each valid submission moves through: pending -> code_created -> email_sent
+-- Any step may end in failed, which can be reclaimed and resumed later.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (reward_status IN ('pending', 'code_created', 'email_sent', 'failed'));
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_error TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_claimed_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS stripe_promotion_code_id TEXT;
+
+-- Backfill rows rewarded before the lifecycle existed
+UPDATE submissions
+SET reward_status = 'email_sent'
+WHERE email_type = 'reward' AND email_sent = TRUE AND reward_status = 'pending';
+
+-- Atomically claim a submission for reward processing.
+-- Returns the row only if it is valid, not yet rewarded, under the attempt limit,
+-- and not currently claimed by another worker (claims expire after p_lease_seconds).
+CREATE OR REPLACE FUNCTION claim_submission_reward(
+  p_submission_id UUID,
+  p_max_attempts INTEGER DEFAULT 5,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF submissions AS $$
+  UPDATE submissions
+  SET reward_attempts = reward_attempts + 1,
+      reward_claimed_at = NOW(),
+      reward_error = NULL
+  WHERE id = p_submission_id
+    AND classification = 'valid'
+    AND reward_status IN ('pending', 'code_created', 'failed')
+    AND reward_attempts < p_max_attempts
+    AND (reward_claimed_at IS NULL OR reward_claimed_at < NOW() - make_interval(secs => p_lease_seconds))
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- Email outbox
+-- ============================================
+-- Every outbound email is persisted here before it is sent. Failed sends are
+-- retried with exponential backoff by the cron sweeper until max_attempts,
+-- after which they are parked as 'dead' for manual inspection.
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID REFERENCES submissions(id) ON DELETE CASCADE,
+  dedupe_key TEXT UNIQUE NOT NULL,
+  email_type TEXT NOT NULL CHECK (email_type IN ('reward', 'abuse')),
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  message_id TEXT,
+  locked_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for finding entries due for (re)delivery
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_submission ON email_outbox(submission_id);
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON email_outbox;
+CREATE POLICY "Service role has full access" ON email_outbox
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- Atomically claim outbox entries for delivery.
+-- With p_entry_id, claims that single entry; otherwise claims up to p_limit due entries.
+-- Entries stuck in 'sending' longer than p_lease_seconds are reclaimed, or parked
+-- as 'dead' if that stuck attempt was already their last.
+CREATE OR REPLACE FUNCTION claim_email_outbox(
+  p_limit INTEGER DEFAULT 25,
+  p_entry_id UUID DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF email_outbox AS $$
+  UPDATE email_outbox
+  SET status = 'dead',
+      last_error = COALESCE(last_error || '; ', '') || 'Delivery lease expired on the final attempt',
+      locked_at = NULL
+  WHERE (p_entry_id IS NULL OR id = p_entry_id)
+    AND status = 'sending'
+    AND attempts >= max_attempts
+    AND locked_at < NOW() - make_interval(secs => p_lease_seconds);
+
+  UPDATE email_outbox
+  SET status = 'sending',
+      attempts = attempts + 1,
+      locked_at = NOW()
+  WHERE id IN (
+    SELECT id FROM email_outbox
+    WHERE (p_entry_id IS NULL OR id = p_entry_id)
+      AND attempts < max_attempts
+      AND (
+        (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+        OR (status = 'sending' AND locked_at < NOW() - make_interval(secs => p_lease_seconds))
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- Submissions still owed an email that never made it into the outbox
+-- (e.g. the request crashed before enqueueing). Uses idx_submissions_email_sent.
+CREATE OR REPLACE FUNCTION find_unqueued_submissions(
+  p_limit INTEGER DEFAULT 25,
+  p_grace_seconds INTEGER DEFAULT 600,
+  p_max_reward_attempts INTEGER DEFAULT 5
+)
+RETURNS SETOF submissions AS $$
+  SELECT s.* FROM submissions s
+  WHERE s.email_sent = FALSE
+    AND s.classification IN ('valid', 'attention_fail')
+    AND s.created_at < NOW() - make_interval(secs => p_grace_seconds)
+    AND (s.classification <> 'valid' OR s.reward_attempts < p_max_reward_attempts)
+    AND NOT EXISTS (
+      SELECT 1 FROM email_outbox o
+      WHERE o.submission_id = s.id
+        AND o.email_type = CASE WHEN s.classification = 'valid' THEN 'reward' ELSE 'abuse' END
+    )
+  ORDER BY s.created_at
+  LIMIT p_limit;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- Bot heuristics
+-- ============================================
+-- Score and reasons from the heuristic stage (see src/lib/bot-detection.ts).
+-- submission_time_seconds is filled from the started_at hidden field when present.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS bot_score NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS bot_signals JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS answer_fingerprint TEXT;
+
+-- Index for identical-answer lookups across respondents
+CREATE INDEX IF NOT EXISTS idx_submissions_answer_fingerprint ON submissions(answer_fingerprint);
+
+-- ============================================
+-- Attention check outcomes
+-- ============================================
+-- Per-check result recorded on each submission (see src/config/attention-checks.json)
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS attention_checks JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================
+-- Campaigns
+-- ============================================
+-- One row per Tally form. settings holds the typed CampaignSettings
+-- (see src/lib/campaigns.ts): attentionChecks, reward, emailTemplates.
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  form_id TEXT UNIQUE NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}',
+  opens_at TIMESTAMPTZ,
+  closes_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_campaigns_updated_at ON campaigns;
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON campaigns;
+CREATE POLICY "Service role has full access" ON campaigns
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS form_id TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id);
+
+-- Index for per-campaign duplicate email lookups
+CREATE INDEX IF NOT EXISTS idx_submissions_campaign_email ON submissions(campaign_id, email);
+
+-- The original survey (coupon and attention checks fall back to env / config defaults)
+INSERT INTO campaigns (slug, name, form_id, settings)
+VALUES (
+  'ai-coding-survey-2026-01',
+  'AI Coding Usage and Difficulties Survey',
+  'OD7dp7',
+  '{"reward": {"type": "stripe_promotion_code"}, "emailTemplates": {"reward": "default", "abuse": "default"}}'
+)
+ON CONFLICT (form_id) DO NOTHING;
+
+-- Attach existing submissions to the original survey
+UPDATE submissions
+SET form_id = 'OD7dp7',
+    campaign_id = (SELECT id FROM campaigns WHERE form_id = 'OD7dp7')
+WHERE campaign_id IS NULL AND form_id IS NULL;
+
+-- ============================================
+-- Race-safe duplicate detection
+-- ============================================
+-- At most one valid (rewarded) submission per campaign and normalized email.
+-- The read-then-insert check in the webhook is only a fast path; this index is
+-- the guarantee when two submissions from the same email arrive concurrently.
+-- Resolve any existing duplicates before running this on an existing database.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_submissions_unique_rewarded_email
+  ON submissions (COALESCE(campaign_id, '00000000-0000-0000-0000-000000000000'::UUID), LOWER(email))
+  WHERE classification = 'valid';
+
+-- Rejected duplicate submissions, linked to the submission they duplicate
+CREATE TABLE IF NOT EXISTS duplicate_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  original_submission_id UUID REFERENCES submissions(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES campaigns(id),
+  email TEXT NOT NULL,
+  tally_response_id TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('email_already_submitted', 'concurrent_submission')),
+  answers JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for repeat-abuse lookups per email
+CREATE INDEX IF NOT EXISTS idx_duplicate_attempts_email ON duplicate_attempts(email);
+CREATE INDEX IF NOT EXISTS idx_duplicate_attempts_original ON duplicate_attempts(original_submission_id);
+
+-- Index for recognizing Tally redeliveries of a response already logged
+CREATE INDEX IF NOT EXISTS idx_duplicate_attempts_response ON duplicate_attempts(tally_response_id);
+
+ALTER TABLE duplicate_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON duplicate_attempts;
+CREATE POLICY "Service role has full access" ON duplicate_attempts
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- ============================================
+-- Email normalization
+-- ============================================
+-- email_canonical strips plus-tags (Yahoo '-' keywords), Gmail dots and provider
+-- domain aliases (see src/lib/email-normalization.ts) and is what duplicate checks compare.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_canonical TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_flags JSONB NOT NULL DEFAULT '[]';
+
+-- Submissions blocked by DISPOSABLE_EMAIL_POLICY=reject, and those held for
+-- manual review (see below). The only definition of this constraint: a
+-- narrower one here would fail on re-runs once needs_review rows exist.
+ALTER TABLE submissions DROP CONSTRAINT IF EXISTS submissions_classification_check;
+ALTER TABLE submissions ADD CONSTRAINT submissions_classification_check
+  CHECK (classification IN ('valid', 'bot', 'attention_fail', 'rejected', 'needs_review'));
+
+-- Canonical form of an address; must stay in step with canonicalizeEmail
+-- (provider domain aliases, Gmail dots, '+' tags, and '-' keywords on Yahoo)
+CREATE OR REPLACE FUNCTION canonicalize_email(p_email TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  normalized TEXT := LOWER(regexp_replace(p_email, '^\s+|\s+$', '', 'g'));
+  local_part TEXT;
+  domain TEXT;
+  canonical_domain TEXT;
+  separator TEXT := '+';
+  separator_pos INTEGER;
+BEGIN
+  IF POSITION('@' IN normalized) = 0 THEN
+    RETURN normalized;
+  END IF;
+
+  -- Split at the last '@', like the TypeScript lastIndexOf
+  local_part := regexp_replace(normalized, '@[^@]*$', '');
+  domain := substring(normalized FROM '@([^@]*)$');
+
+  canonical_domain := CASE domain
+    WHEN 'googlemail.com' THEN 'gmail.com'
+    WHEN 'me.com' THEN 'icloud.com'
+    WHEN 'mac.com' THEN 'icloud.com'
+    WHEN 'protonmail.com' THEN 'proton.me'
+    WHEN 'protonmail.ch' THEN 'proton.me'
+    WHEN 'pm.me' THEN 'proton.me'
+    ELSE domain
+  END;
+
+  IF domain IN ('yahoo.com', 'ymail.com') THEN
+    separator := '-';
+  END IF;
+
+  -- A separator at the very start is part of the name, not a tag
+  separator_pos := POSITION(separator IN local_part);
+  IF separator_pos > 1 THEN
+    local_part := LEFT(local_part, separator_pos - 1);
+  END IF;
+
+  IF canonical_domain = 'gmail.com' THEN
+    local_part := REPLACE(local_part, '.', '');
+  END IF;
+
+  RETURN local_part || '@' || canonical_domain;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Backfill existing rows
+UPDATE submissions
+SET email_canonical = canonicalize_email(email)
+WHERE email_canonical IS NULL;
+
+-- Index for per-campaign duplicate lookups on the canonical email
+CREATE INDEX IF NOT EXISTS idx_submissions_campaign_email_canonical ON submissions(campaign_id, email_canonical);
+
+-- Uniqueness now applies to the canonical email, so aliases cannot each claim a reward
+DROP INDEX IF EXISTS idx_submissions_unique_rewarded_email;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_submissions_unique_rewarded_canonical_email
+  ON submissions (COALESCE(campaign_id, '00000000-0000-0000-0000-000000000000'::UUID), email_canonical)
+  WHERE classification = 'valid';
+
+ALTER TABLE duplicate_attempts DROP CONSTRAINT IF EXISTS duplicate_attempts_reason_check;
+ALTER TABLE duplicate_attempts ADD CONSTRAINT duplicate_attempts_reason_check
+  CHECK (reason IN ('email_already_submitted', 'alias_already_submitted', 'concurrent_submission'));
+
+-- ============================================
+-- Manual review
+-- ============================================
+-- Borderline submissions are held as needs_review until an admin approves
+-- (-> valid, rewarded) or rejects (-> rejected) them. needs_review is allowed by
+-- submissions_classification_check in the Email normalization section.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+-- Index for the review queue
+CREATE INDEX IF NOT EXISTS idx_submissions_needs_review ON submissions(created_at) WHERE classification = 'needs_review';
+
+-- ============================================
+-- Survey analytics
+-- ============================================
+-- Analytics aggregate answers per form, filtered by classification.
+
+CREATE INDEX IF NOT EXISTS idx_submissions_form_classification ON submissions(form_id, classification, created_at);
+
+-- ============================================
+-- Reward providers
+-- ============================================
+-- The reward issued for a submission comes from the provider configured on its
+-- campaign (settings.reward.type, see src/lib/reward-providers). reward_reference
+-- is the provider-side id and reward_data the data handed to the email template.
+-- promo_code / stripe_promotion_code_id are still filled for code-based rewards.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_type TEXT
+  CHECK (reward_type IN ('stripe_promotion_code', 'stripe_customer_credit', 'code_pool', 'raffle'));
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_reference TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_data JSONB;
+-- Bumped on every reissue, so provider idempotency keys differ per issued reward
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_generation INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill rewards issued before providers existed
+UPDATE submissions
+SET reward_type = 'stripe_promotion_code',
+    reward_reference = stripe_promotion_code_id,
+    reward_data = jsonb_build_object('type', 'stripe_promotion_code', 'code', promo_code)
+WHERE reward_type IS NULL AND stripe_promotion_code_id IS NOT NULL AND promo_code IS NOT NULL;
+
+-- Pre-generated codes uploaded as CSV, handed out one per submission
+CREATE TABLE IF NOT EXISTS reward_code_pool (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool TEXT NOT NULL,
+  code TEXT NOT NULL,
+  submission_id UUID REFERENCES submissions(id),
+  assigned_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (pool, code)
+);
+
+-- Index for finding the next free code
+CREATE INDEX IF NOT EXISTS idx_reward_code_pool_available ON reward_code_pool(pool, created_at) WHERE submission_id IS NULL;
+
+-- At most one live code per submission (a revoked code can be replaced)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reward_code_pool_submission
+  ON reward_code_pool(submission_id) WHERE submission_id IS NOT NULL AND revoked_at IS NULL;
+
+ALTER TABLE reward_code_pool ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON reward_code_pool;
+CREATE POLICY "Service role has full access" ON reward_code_pool
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- Assign the next free code in a pool to a submission.
+-- Returns the submission's live code if it already has one, so retries are idempotent;
+-- returns nothing if the pool is exhausted.
+CREATE OR REPLACE FUNCTION claim_reward_pool_code(
+  p_pool TEXT,
+  p_submission_id UUID
+)
+RETURNS SETOF reward_code_pool AS $$
+BEGIN
+  RETURN QUERY
+    SELECT * FROM reward_code_pool
+    WHERE pool = p_pool AND submission_id = p_submission_id AND revoked_at IS NULL;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    UPDATE reward_code_pool
+    SET submission_id = p_submission_id,
+        assigned_at = NOW()
+    WHERE id = (
+      SELECT id FROM reward_code_pool
+      WHERE pool = p_pool AND submission_id IS NULL
+      ORDER BY created_at, id
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Raffle entries, one per submission
+CREATE TABLE IF NOT EXISTS raffle_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle TEXT NOT NULL,
+  submission_id UUID UNIQUE NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id),
+  email TEXT NOT NULL,
+  withdrawn_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_raffle_entries_raffle ON raffle_entries(raffle) WHERE withdrawn_at IS NULL;
+
+ALTER TABLE raffle_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON raffle_entries;
+CREATE POLICY "Service role has full access" ON raffle_entries
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- ============================================
+-- Reward expiry and redemption tracking
+-- ============================================
+-- Promotion codes can expire (settings.reward.expiresInDays). The Stripe webhook
+-- records when a code is applied and when an invoice using it is paid, which
+-- gives survey-to-paid conversion per campaign.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_expires_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_redeemed_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_paid_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_paid_amount INTEGER;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_paid_currency TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+-- First attempt to issue the current reward; expiry counts from here so
+-- every retry sends Stripe identical parameters
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_issue_started_at TIMESTAMPTZ;
+
+-- Codes already reserved counted their expiry from the submission time
+UPDATE submissions
+SET reward_issue_started_at = created_at
+WHERE reward_issue_started_at IS NULL AND promo_code IS NOT NULL;
+
+-- Index for webhook lookups by promotion code
+CREATE INDEX IF NOT EXISTS idx_submissions_stripe_promotion_code ON submissions(stripe_promotion_code_id);
+
+-- ============================================
+-- Reward reminders
+-- ============================================
+-- Unredeemed promotion codes get reminder emails (see src/lib/reminders.ts).
+-- reward_reminders_sent counts queued reminders; reward_next_reminder_at is when
+-- the submission is next checked; reward_reminders_done_at ends the sequence.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_email_sent_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_reminders_sent INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_next_reminder_at TIMESTAMPTZ;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reward_reminders_done_at TIMESTAMPTZ;
+
+-- Backfill the reward email time from the outbox (or the last update for older rows)
+UPDATE submissions s
+SET reward_email_sent_at = COALESCE(
+  (SELECT MAX(o.sent_at) FROM email_outbox o WHERE o.submission_id = s.id AND o.email_type = 'reward'),
+  s.updated_at
+)
+WHERE s.reward_status = 'email_sent' AND s.reward_email_sent_at IS NULL;
+
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS email_outbox_email_type_check;
+ALTER TABLE email_outbox ADD CONSTRAINT email_outbox_email_type_check
+  CHECK (email_type IN ('reward', 'abuse', 'reminder'));
+
+-- Reminders for redeemed or expired codes are cancelled rather than sent
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS email_outbox_status_check;
+ALTER TABLE email_outbox ADD CONSTRAINT email_outbox_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'dead', 'cancelled'));
+
+-- Index for the reminder job
+CREATE INDEX IF NOT EXISTS idx_submissions_reminder_due ON submissions(reward_next_reminder_at)
+  WHERE reward_status = 'email_sent' AND reward_redeemed_at IS NULL AND reward_reminders_done_at IS NULL;
+
+-- Rewarded submissions with an unredeemed, unexpired promotion code that are
+-- due for a reminder check (never checked, or their scheduled time has passed)
+CREATE OR REPLACE FUNCTION find_reward_reminder_candidates(
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF submissions AS $$
+  SELECT * FROM submissions
+  WHERE classification = 'valid'
+    AND reward_status = 'email_sent'
+    AND reward_type = 'stripe_promotion_code'
+    AND reward_email_sent_at IS NOT NULL
+    AND reward_redeemed_at IS NULL
+    AND reward_reminders_done_at IS NULL
+    AND (reward_expires_at IS NULL OR reward_expires_at > NOW())
+    AND (reward_next_reminder_at IS NULL OR reward_next_reminder_at <= NOW())
+  ORDER BY reward_next_reminder_at NULLS FIRST, reward_email_sent_at
+  LIMIT p_limit;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- Localized emails
+-- ============================================
+-- Locale emails are sent in and the name they greet the respondent with,
+-- read from survey answers or Tally hidden fields (see src/lib/respondent.ts)
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS locale TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS respondent_name TEXT;
+
+-- ============================================
+-- Email delivery events
+-- ============================================
+-- Mailgun delivery events (see /api/webhook/mailgun). The message id of the
+-- latest reward/abuse email is kept on the submission with its delivery status;
+-- hard bounces and complaints add the address to email_suppressions, which the
+-- outbox checks before every send.
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_message_id TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_delivery_status TEXT
+  CHECK (email_delivery_status IN ('failed', 'delivered', 'opened', 'bounced', 'complained'));
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_delivery_error TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS email_delivery_updated_at TIMESTAMPTZ;
+
+ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS delivery_status TEXT
+  CHECK (delivery_status IN ('failed', 'delivered', 'opened', 'bounced', 'complained'));
+ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS delivery_updated_at TIMESTAMPTZ;
+
+-- Indexes for webhook lookups by message id
+CREATE INDEX IF NOT EXISTS idx_email_outbox_message_id ON email_outbox(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_submissions_email_message_id ON submissions(email_message_id) WHERE email_message_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_event_id TEXT UNIQUE NOT NULL,
+  message_id TEXT,
+  outbox_id UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+  submission_id UUID REFERENCES submissions(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('failed', 'delivered', 'opened', 'bounced', 'complained')),
+  recipient TEXT,
+  detail TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_submission ON email_events(submission_id, occurred_at);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON email_events;
+CREATE POLICY "Service role has full access" ON email_events
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- Addresses that are never emailed again (stored lowercased)
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email TEXT PRIMARY KEY,
+  reason TEXT NOT NULL CHECK (reason IN ('bounced', 'complained', 'manual')),
+  detail TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON email_suppressions;
+CREATE POLICY "Service role has full access" ON email_suppressions
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+-- ============================================
+-- Normalized answers
+-- ============================================
+-- answers holds { schema_version, fields } with one entry per Tally field in
+-- form order: { key, index, title, type, value, raw } (see src/lib/answers.ts).
+-- value is the display value (option texts), raw the value exactly as Tally sent it.
+ALTER TABLE submissions ALTER COLUMN answers SET DEFAULT '{"schema_version": 2, "fields": []}';
+ALTER TABLE duplicate_attempts ALTER COLUMN answers SET DEFAULT '{"schema_version": 2, "fields": []}';
+
+-- Rewrite answers stored before schema_version, keyed by field key:
+-- { key: { index, title, type, value, rawValue } }
+CREATE OR REPLACE FUNCTION normalize_legacy_answers(legacy JSONB)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'schema_version', 2,
+    'fields', COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'key', entry.key,
+        'index', COALESCE((entry.value->>'index')::INT, entry.position - 1),
+        'title', COALESCE(entry.value->>'title', entry.key),
+        'type', COALESCE(entry.value->>'type', 'UNKNOWN'),
+        'value', COALESCE(entry.value->'value', 'null'::JSONB),
+        'raw', COALESCE(entry.value->'rawValue', entry.value->'value', 'null'::JSONB)
+      )
+      ORDER BY COALESCE((entry.value->>'index')::INT, entry.position - 1), entry.key
+    ), '[]'::JSONB)
+  )
+  FROM jsonb_each(legacy) WITH ORDINALITY AS entry(key, value, position)
+  WHERE jsonb_typeof(entry.value) = 'object';
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE submissions
+SET answers = normalize_legacy_answers(answers)
+WHERE NOT answers ? 'schema_version';
+
+UPDATE duplicate_attempts
+SET answers = normalize_legacy_answers(answers)
+WHERE NOT answers ? 'schema_version';
+
+-- ============================================
+-- Form versions
+-- ============================================
+-- Each distinct structure of a Tally form (field keys, titles, types and
+-- options, without answers) seen in a webhook, stored once per content hash
+-- (see src/lib/form-versions.ts). Submissions reference the version they were
+-- answered against; rows stored before this have no version.
+CREATE TABLE IF NOT EXISTS form_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  form_name TEXT,
+  definition JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (form_id, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_versions_form ON form_versions(form_id, created_at);
+
+ALTER TABLE form_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access" ON form_versions;
+CREATE POLICY "Service role has full access" ON form_versions
+  FOR ALL
+  USING (TRUE)
+  WITH CHECK (TRUE);
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS form_version_id UUID REFERENCES form_versions(id);
+
+-- Index for per-version analytics
+CREATE INDEX IF NOT EXISTS idx_submissions_form_version ON submissions(form_version_id);